@@ -1,6 +1,6 @@
 import express from 'express';
 import { createServer } from 'http';
-import { Server } from 'socket.io';
+import { Server, Socket } from 'socket.io';
 import cors from 'cors';
 import mongoose, { model } from 'mongoose';
 import dotenv from 'dotenv';
@@ -10,14 +10,36 @@ import { dirname } from 'path';
 import StreamingStatusSchema from './models/StreamingStatus.js';
 import AudioResponse from './models/AudioResponse.js';
 import { GiftTransaction } from './models/GiftTransaction.js';
+import { Gift } from './models/Gift.js';
+import { AgentApiKey, AGENT_API_KEY_SCOPES } from './models/AgentApiKey.js';
+import { ChatSanction } from './models/ChatSanction.js';
+import { Reaction, REACTION_EMOJIS } from './models/Reaction.js';
+import { AgentWebhook, WEBHOOK_EVENTS } from './models/AgentWebhook.js';
+import { WebhookDelivery } from './models/WebhookDelivery.js';
+import { StreamSession } from './models/StreamSession.js';
 import { Connection, PublicKey, Transaction } from '@solana/web3.js';
-import { TOKEN_PROGRAM_ID, getAssociatedTokenAddress, createAssociatedTokenAccountInstruction, createTransferInstruction } from '@solana/spl-token';
+import { TOKEN_PROGRAM_ID, getAssociatedTokenAddress, createAssociatedTokenAccountInstruction, createTransferInstruction, getMint } from '@solana/spl-token';
 import { UserProfile } from './models/UserProfile.js';
-import { Filter } from 'bad-words';
 import multer from 'multer';
-import * as badwordsList from 'badwords-list';
 import { uploadImgToBunnyCDN, getExtensionFromMimetype, uploadVrmToBunnyCDN, uploadAudioToBunnyCDN } from './upload/uploadCdn.ts';
-import { web3Auth, authorizedPk } from './middleware/web3Auth.ts';
+import { web3Auth, authorizedPk, issueWeb3AuthChallenge, verifyWeb3AuthToken, issueSocketSessionToken, verifySocketSessionToken, socketSessionTtlSeconds } from './middleware/web3Auth.ts';
+import { requireAdmin, requireSelfOrAdmin, isAdminPk } from './middleware/adminAuth.ts';
+import { agentApiKeyAuth, generateAgentApiKey, verifyAgentApiKey } from './middleware/agentApiKey.ts';
+import { verifyGiftTransaction } from './utils/giftVerification.ts';
+import { consumeRateLimit, resolveRateLimitRules, isValidRateLimitRule, DEFAULT_RATE_LIMITS, RateLimitOverrides, RateLimitIdentities } from './utils/rateLimiter.ts';
+import { getWordMatcher, defaultWordMatcher, WORD_FILTER_MODES, WordFilterConfig } from './utils/profanityFilter.ts';
+import { normalizeHandle, handleLookalikeKey, configuredReservedHandles } from './utils/handles.ts';
+import { decodeCursor, encodeCursor, cursorFilter, cursorSort, compareByCursorOrder, buildCursorPage, pageSize } from './utils/pagination.ts';
+import { searchTerms, highlightSnippet, escapeRegExp } from './utils/search.ts';
+import { rankComments, findDuplicateComments, resolveScoringWeights, validateScoringWeights, listCommentScorers } from './utils/commentScoring.ts';
+import { enqueueInboxItem, leaseInboxItems, ackInboxItems, nackInboxItems, listParkedInboxItems, requeueInboxItems, INBOX_ITEM_TYPES, DEFAULT_VISIBILITY_TIMEOUT_SECONDS, MAX_VISIBILITY_TIMEOUT_SECONDS, InboxItemType } from './utils/agentInbox.ts';
+import { dispatchWebhookEvent, pingWebhook, replayWebhookDelivery, generateWebhookSecret, validateWebhookUrl } from './utils/webhooks.ts';
+import { openStreamSession, closeStreamSession, recordViewerSamples, sessionSummary, SessionEndReason } from './utils/streamSessions.ts';
+import { recordViewerCounts, rollupViewerSamples, agentAnalytics, validateAnalyticsRange, defaultResolution, ANALYTICS_RESOLUTIONS, ANALYTICS_WINDOWS } from './utils/viewerAnalytics.ts';
+import { viewerKeyFor, addViewerSocket, removeViewerSocket, viewerCounts, uniqueViewerCount, watchedAgentIds } from './utils/viewerPresence.ts';
+import { validateTimeframe, resolveTimeframe, timeRangeMatch, TimeframeMode } from './utils/timeframes.ts';
+import { leaderboard, profileLookupStages, LEADERBOARD_TYPES, LeaderboardType, LeaderboardQuery } from './utils/leaderboards.ts';
+import { incrementStreamStats, reconcileStreamStats, platformStats, CountedStats } from './utils/streamStats.ts';
 const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 // Convert ESM module path to dirname
@@ -76,6 +98,12 @@ app.use(cors({
 }));
 app.use(express.json());
 
+// Set TRUST_PROXY=true when running behind a reverse proxy so client IPs come from X-Forwarded-For
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+if (TRUST_PROXY) {
+  app.set('trust proxy', true);
+}
+
 // Configure Socket.IO with CORS
 const io = new Server(httpServer, {
   cors: {
@@ -86,8 +114,235 @@ const io = new Server(httpServer, {
   }
 });
 
+// Agent-specific events go to a per-agent room instead of every connected client.
+// Clients join the room with `join_agent_stream` and listen for `agent:<event>`.
+const agentRoom = (agentId: string) => `stream:${agentId}`;
+
+// While older clients migrate, also broadcast the legacy `${agentId}_<event>` names to everyone.
+// Set LEGACY_AGENT_EVENTS=false once all clients listen to the room events.
+const LEGACY_AGENT_EVENTS = process.env.LEGACY_AGENT_EVENTS !== 'false';
+
+function emitToAgent(agentId: string, event: string, payload: any) {
+  io.to(agentRoom(agentId)).emit(`agent:${event}`, payload);
+  if (LEGACY_AGENT_EVENTS) {
+    io.emit(`${agentId}_${event}`, payload);
+  }
+}
+
+// Queue an item for agent runtimes without holding up the viewer-facing response
+function queueForAgents(agentIds: string[], type: InboxItemType, itemId: string, createdAt?: Date) {
+  enqueueInboxItem(agentIds, type, itemId, createdAt).catch(error => {
+    console.error(`Error queueing ${type} ${itemId} for agents:`, error);
+  });
+}
+
+// Webhook payload for a comment, without the internal moderation fields
+function commentWebhookData(comment: any) {
+  return {
+    id: comment.id,
+    user: comment.user,
+    handle: comment.handle,
+    message: comment.message,
+    parentId: comment.parentId,
+    mentions: comment.mentions,
+    addressesAgent: comment.addressesAgent,
+    createdAt: comment.createdAt
+  };
+}
+
+// Open or close the stream session and fire stream.online/stream.offline webhooks
+// when a status update flips isStreaming
+function onStreamStatusChange(wasStreaming: boolean | undefined, status: any, endReason: SessionEndReason = 'offline') {
+  if (!status || !!wasStreaming === !!status.isStreaming) {
+    return;
+  }
+  const { agentId, title, startedAt } = status;
+  const session = status.isStreaming
+    ? openStreamSession(agentId, { title, startedAt })
+    : closeStreamSession(agentId, endReason, { title, startedAt });
+  session.catch(error => {
+    console.error(`Error recording stream session for ${agentId}:`, error);
+  });
+  dispatchWebhookEvent(agentId, status.isStreaming ? 'stream.online' : 'stream.offline', {
+    title,
+    startedAt,
+    lastHeartbeat: status.lastHeartbeat
+  });
+}
+
+// A like.burst webhook fires when an agent gets LIKE_BURST_COUNT likes within
+// LIKE_BURST_WINDOW_MS, at most once per LIKE_BURST_COOLDOWN_MS
+const LIKE_BURST_COUNT = 20;
+const LIKE_BURST_WINDOW_MS = 10 * 1000;
+const LIKE_BURST_COOLDOWN_MS = 60 * 1000;
+const likeBursts = new Map<string, { likes: number[]; firedAt: number }>();
+
+function trackLikeBurst(agentId: string) {
+  const now = Date.now();
+  const burst = likeBursts.get(agentId) || { likes: [], firedAt: 0 };
+  burst.likes = burst.likes.filter(at => at > now - LIKE_BURST_WINDOW_MS);
+  burst.likes.push(now);
+  likeBursts.set(agentId, burst);
+
+  if (burst.likes.length >= LIKE_BURST_COUNT && now - burst.firedAt >= LIKE_BURST_COOLDOWN_MS) {
+    burst.firedAt = now;
+    dispatchWebhookEvent(agentId, 'like.burst', {
+      likes: burst.likes.length,
+      windowSeconds: LIKE_BURST_WINDOW_MS / 1000,
+      since: new Date(burst.likes[0])
+    });
+  }
+}
+
+// Forget agents whose likes have gone quiet
+setInterval(() => {
+  const cutoff = Date.now() - Math.max(LIKE_BURST_WINDOW_MS, LIKE_BURST_COOLDOWN_MS);
+  for (const [agentId, burst] of likeBursts.entries()) {
+    if (burst.likes[burst.likes.length - 1] < cutoff && burst.firedAt < cutoff) {
+      likeBursts.delete(agentId);
+    }
+  }
+}, 60 * 1000);
+
+// Per-agent settings (rate limit overrides, word filter, comment scoring weights, names viewers
+// address it by), cached briefly so socket events don't hit the database each time
+type AgentSettings = {
+  /** False for agent ids with neither a stream nor an agent map entry */
+  exists: boolean;
+  rateLimits: RateLimitOverrides | null;
+  wordFilter: WordFilterConfig | null;
+  scoringWeights: Record<string, number> | null;
+  names: string[];
+};
+const agentSettingsCache = new Map<string, { settings: AgentSettings; fetchedAt: number }>();
+const AGENT_SETTINGS_CACHE_MS = 30 * 1000;
+// Oldest entries are evicted first, so made up agent ids can't grow the cache without bound
+const MAX_CACHED_AGENT_SETTINGS = 1000;
+const NO_AGENT_SETTINGS: AgentSettings = { exists: false, rateLimits: null, wordFilter: null, scoringWeights: null, names: [] };
+
+async function getAgentSettings(agentId?: string): Promise<AgentSettings> {
+  if (!agentId) {
+    return NO_AGENT_SETTINGS;
+  }
+  const cached = agentSettingsCache.get(agentId);
+  if (cached && Date.now() - cached.fetchedAt < AGENT_SETTINGS_CACHE_MS) {
+    return cached.settings;
+  }
+  try {
+    const [status, agentMap] = await Promise.all([
+      StreamingStatus.findOne({ agentId }, { rateLimits: 1, wordFilter: 1, scoringWeights: 1, 'creator.username': 1 }).lean(),
+      AgentMap.findOne({ _id: "global_agent_map" }, { [`agents.${agentId}`]: 1 })
+    ]);
+    const agentEntry = agentMap?.agents?.get(agentId);
+    const settings: AgentSettings = {
+      exists: !!(status || agentEntry),
+      rateLimits: (status?.rateLimits as RateLimitOverrides) || null,
+      wordFilter: (status?.wordFilter as WordFilterConfig) || null,
+      scoringWeights: (status?.scoringWeights as Record<string, number>) || null,
+      names: [agentEntry?.name, status?.creator?.username].filter(Boolean)
+    };
+    agentSettingsCache.delete(agentId);
+    agentSettingsCache.set(agentId, { settings, fetchedAt: Date.now() });
+    if (agentSettingsCache.size > MAX_CACHED_AGENT_SETTINGS) {
+      agentSettingsCache.delete(agentSettingsCache.keys().next().value);
+    }
+    return settings;
+  } catch (error) {
+    console.error('Error loading agent settings:', error);
+    return NO_AGENT_SETTINGS;
+  }
+}
+
+async function getAgentRateLimits(agentId?: string): Promise<RateLimitOverrides | null> {
+  return (await getAgentSettings(agentId)).rateLimits;
+}
+
+function socketIp(socket: Socket): string {
+  const forwardedFor = socket.handshake.headers['x-forwarded-for'];
+  if (TRUST_PROXY && typeof forwardedFor === 'string') {
+    return forwardedFor.split(',')[0].trim();
+  }
+  return socket.handshake.address;
+}
+
+// Checks an action's limits. Socket and IP buckets are shared by all agents and use the global
+// rules, so switching agentId doesn't buy fresh ones; they are checked before the agent's settings
+// are loaded. Agents that exist then get their own buckets, with their overrides applied. Agent
+// overrides can therefore raise or lower the wallet limit, but only lower the socket and IP ones.
+async function consumeActionRateLimit(action: string, agentId: string | undefined, identities: RateLimitIdentities) {
+  const shared = consumeRateLimit(
+    action,
+    { socket: identities.socket, ip: identities.ip },
+    resolveRateLimitRules(action)
+  );
+  if (!shared.allowed) {
+    return shared;
+  }
+  const settings = await getAgentSettings(agentId);
+  return consumeRateLimit(
+    `${action}:${settings.exists ? agentId : '*'}`,
+    identities,
+    resolveRateLimitRules(action, settings.rateLimits)
+  );
+}
+
+// Returns false, and tells the client when to retry, if the socket is over its limit for the action
+async function allowSocketAction(socket: Socket, action: string, agentId: string | undefined, publicKey: string | null) {
+  const result = await consumeActionRateLimit(action, agentId, { wallet: publicKey, socket: socket.id, ip: socketIp(socket) });
+  if (!result.allowed) {
+    socket.emit('rate_limited', { action, agentId, retryAfter: result.retryAfter });
+  }
+  return result.allowed;
+}
+
+function sendRateLimited(res: express.Response, retryAfter: number) {
+  res.set('Retry-After', String(retryAfter));
+  return res.status(429).json({ error: 'Too many requests', retryAfter });
+}
+
+// Rate limits a public REST write route by client IP. Mount it first, so floods are turned away
+// before uploads are parsed and signatures checked. Pass getWallet for routes that name the
+// wallet themselves; signed routes add restWalletRateLimit after web3Auth.
+function restRateLimit(
+  action: string,
+  getWallet: (req: express.Request) => string | undefined = () => undefined
+): express.RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const agentId = req.params.agentId || req.body?.agentId;
+      const result = await consumeActionRateLimit(action, agentId, { wallet: getWallet(req), ip: req.ip });
+      if (!result.allowed) {
+        return sendRateLimited(res, result.retryAfter);
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Limits the signing wallet of a route, mount after web3Auth
+function restWalletRateLimit(action: string): express.RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const agentId = req.params.agentId || req.body?.agentId;
+      const { exists, rateLimits } = await getAgentSettings(agentId);
+      const result = consumeRateLimit(
+        `${action}:${exists ? agentId : '*'}`,
+        { wallet: authorizedPk(res) },
+        resolveRateLimitRules(action, rateLimits)
+      );
+      if (!result.allowed) {
+        return sendRateLimited(res, result.retryAfter);
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
 
-// Initialize counters
+// Platform-wide counters sent with like and comment events, summed from the agents' stats
 let likeCount = 0;
 let commentCount = 0;
 
@@ -95,16 +350,77 @@ let commentCount = 0;
 mongoose.connect(MONGO_URI)
   .then(async () => {
     console.log('Connected to MongoDB');
-    try {
-      likeCount = await Like.countDocuments();
-      commentCount = await Comment.countDocuments();
-      console.log('Initial counts loaded - Likes:', likeCount, 'Comments:', commentCount);
-    } catch (error) {
-      console.error('Error initializing counts:', error);
-    }
+    await syncStreamStats();
+    console.log('Initial counts loaded - Likes:', likeCount, 'Comments:', commentCount);
+    await backfillNormalizedHandles();
   })
   .catch(err => console.error('MongoDB connection error:', err));
 
+// Repairs per-agent stats that drifted and reloads the platform-wide counters from them
+async function syncStreamStats() {
+  try {
+    const repaired = await reconcileStreamStats();
+    if (repaired.length) {
+      console.warn(`Repaired drifted stats of ${repaired.length} agents:`, repaired.join(', '));
+    }
+    const totals = await platformStats();
+    likeCount = totals.likes;
+    commentCount = totals.comments;
+  } catch (error) {
+    console.error('Error reconciling stream stats:', error);
+  }
+}
+
+setInterval(syncStreamStats, 10 * 60 * 1000);
+
+// Bump an agent's stats without holding up the viewer-facing response
+function bumpStreamStats(agentId: string, delta: Partial<CountedStats>) {
+  incrementStreamStats(agentId, delta).catch(error => {
+    console.error(`Error updating stats of ${agentId}:`, error);
+  });
+}
+
+// Profiles created before handles were normalized. The oldest profile keeps a handle that
+// differs only by case; later ones are moved to a placeholder handle derived from their wallet
+// and flagged with handleRenameRequired until they pick a new one.
+async function backfillNormalizedHandles() {
+  try {
+    const profiles = await UserProfile.find({ handleNormalized: { $exists: false } }).sort({ _id: 1 });
+    for (const profile of profiles) {
+      try {
+        await UserProfile.updateOne(
+          { _id: profile._id },
+          { $set: { handleNormalized: normalizeHandle(profile.handle) } }
+        );
+      } catch (error) {
+        if (error?.code !== 11000) {
+          throw error;
+        }
+        console.warn(`Handle ${profile.handle} of ${profile.publicKey} clashes with another profile, renaming`);
+        await renameClashingProfile(profile);
+      }
+    }
+  } catch (error) {
+    console.error('Error backfilling normalized handles:', error);
+  }
+}
+
+async function renameClashingProfile(profile: { _id: any; publicKey: string }) {
+  const placeholder = `user-${profile.publicKey.slice(0, 15)}`;
+  try {
+    await UserProfile.updateOne(
+      { _id: profile._id },
+      { $set: { handle: placeholder, handleNormalized: normalizeHandle(placeholder), handleRenameRequired: true } }
+    );
+  } catch (error) {
+    if (error?.code !== 11000) {
+      throw error;
+    }
+    // Someone took the placeholder, keep the profile out of handle lookups until it is renamed
+    await UserProfile.updateOne({ _id: profile._id }, { $set: { handleRenameRequired: true } });
+  }
+}
+
 // Error handler middleware
 app.use((err, req, res, next) => {
   console.error(err.stack);
@@ -115,10 +431,9 @@ app.use((err, req, res, next) => {
 app.get('/api/streams/:agentId/stats', async (req, res) => {
   const agentId = req.params.agentId;
   try {
-    const likes = await Like.countDocuments({ agentId });
-    const comments = await Comment.countDocuments({ agentId });
-    console.log({ likes, comments, agentId });
-    res.json({ likes, comments });
+    const status = await StreamingStatus.findOne({ agentId }, { stats: 1 }).lean();
+    const { likes = 0, comments = 0, gifts = 0, coins = 0 } = status?.stats || {};
+    res.json({ likes, comments, gifts, coins });
   } catch (error) {
     console.error('Error in /api/streams/:agentId/stats:', error);
     res.status(500).json({ error: 'Failed to get stream stats' });
@@ -126,6 +441,90 @@ app.get('/api/streams/:agentId/stats', async (req, res) => {
 });
 
 
+// Resolves `@handle` mentions to public keys, and whether one of them names the agent
+async function resolveMentions(message: string, agentId: string) {
+  const handles = [...message.matchAll(/(?<![\w@])@([a-zA-Z0-9_-]{3,20})/g)].map(match => match[1]);
+  if (!handles.length) {
+    return { mentions: [], mentionsAgent: false };
+  }
+
+  const { names } = await getAgentSettings(agentId);
+  const agentKeys = new Set(names.map(handleLookalikeKey));
+  const profiles = await UserProfile.find(
+    { handleNormalized: { $in: handles.map(normalizeHandle) } },
+    { publicKey: 1 }
+  );
+  return {
+    mentions: [...new Set(profiles.map(profile => profile.publicKey))],
+    mentionsAgent: handles.some(handle => agentKeys.has(handleLookalikeKey(handle)))
+  };
+}
+
+// Reaction counts per emoji for each of the given comment or AI response ids
+async function reactionCounts(messageIds: string[]): Promise<Map<string, Record<string, number>>> {
+  const counts = new Map<string, Record<string, number>>();
+  if (!messageIds.length) {
+    return counts;
+  }
+  const grouped = await Reaction.aggregate([
+    { $match: { messageId: { $in: messageIds } } },
+    { $group: { _id: { messageId: '$messageId', emoji: '$emoji' }, count: { $sum: 1 } } }
+  ]);
+  for (const { _id, count } of grouped) {
+    counts.set(_id.messageId, { ...counts.get(_id.messageId), [_id.emoji]: count });
+  }
+  return counts;
+}
+
+const THREAD_PREVIEW_LENGTH = 100;
+
+// Adds `replyCount`, a `parent` preview (null when the parent was removed) and `reactions` to each comment
+async function withCommentMetadata(comments: any[]) {
+  const ids = comments.map(comment => comment.id);
+  const parentIds = [...new Set(comments.map(comment => comment.parentId).filter(Boolean))];
+
+  const [replyCounts, parentComments, parentResponses, reactions] = await Promise.all([
+    Comment.aggregate([
+      { $match: { parentId: { $in: ids }, deletedAt: null, heldForReview: { $ne: true } } },
+      { $group: { _id: '$parentId', count: { $sum: 1 } } }
+    ]),
+    parentIds.length
+      ? Comment.find({ id: { $in: parentIds }, deletedAt: null, heldForReview: { $ne: true } }, { id: 1, user: 1, handle: 1, message: 1 })
+      : [],
+    parentIds.length
+      ? AIResponse.find({ id: { $in: parentIds } }, { id: 1, agentId: 1, text: 1 })
+      : [],
+    reactionCounts(ids)
+  ]);
+
+  const counts = new Map(replyCounts.map(entry => [entry._id, entry.count]));
+  const parents = new Map<string, any>();
+  for (const parent of parentComments) {
+    parents.set(parent.id, {
+      id: parent.id,
+      type: 'comment',
+      user: parent.user,
+      handle: parent.handle,
+      message: parent.message.slice(0, THREAD_PREVIEW_LENGTH)
+    });
+  }
+  for (const parent of parentResponses) {
+    parents.set(parent.id, {
+      id: parent.id,
+      type: 'ai_response',
+      agentId: parent.agentId,
+      message: parent.text.slice(0, THREAD_PREVIEW_LENGTH)
+    });
+  }
+
+  return comments.map(comment => ({
+    ...(comment.toObject ? comment.toObject() : comment),
+    replyCount: counts.get(comment.id) || 0,
+    parent: comment.parentId ? parents.get(comment.parentId) || null : null,
+    reactions: reactions.get(comment.id) || {}
+  }));
+}
+
 app.get('/api/comments', async (req, res) => {
   console.log("Fetching comments", req.query);
   try {
@@ -133,8 +532,8 @@ app.get('/api/comments', async (req, res) => {
     const since = req.query.since ? new Date(req.query.since as string) : null;
     const agentId = req.query.agentId;
 
-    // Build query object
-    const query: any = {};
+    // Build query object, leaving out comments removed by moderators or held for review
+    const query: any = { deletedAt: null, heldForReview: { $ne: true } };
     
     // Add filters if provided
     if (since) {
@@ -147,7 +546,7 @@ app.get('/api/comments', async (req, res) => {
     const comments = await Comment.find(query)
     .sort({ createdAt: -1 })
     .limit(limit)
-    .populate('userProfile', 'pfp handle'); // Populate the user profile with 'pfp' and 'handle'
+    .populate('userProfile', 'pfp handle verified'); // Populate the user profile with 'pfp', 'handle' and the verified badge
 
     // Set the avatar field using the pfp from userProfile
     for (const comment of comments) {
@@ -156,7 +555,7 @@ app.get('/api/comments', async (req, res) => {
       }
     }
 
-    res.json({ comments });
+    res.json({ comments: await withCommentMetadata(comments) });
 
   } catch (error) {
     console.error('Error in /api/comments:', error);
@@ -164,31 +563,34 @@ app.get('/api/comments', async (req, res) => {
   }
 });
 
+// Newest comments first, paged with the opaque `cursor` from the previous response
 app.get('/api/comments/paginated', async (req, res) => {
   try {
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 10;
-    const skip = (page - 1) * limit;
+    const limit = pageSize(req.query.limit, 10);
+    const cursor = decodeCursor(req.query.cursor);
+    if (req.query.cursor && !cursor) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
 
+    const visible = { deletedAt: null, heldForReview: { $ne: true } };
     const [comments, total] = await Promise.all([
-      Comment.find({}).sort({ createdAt: -1 }).skip(skip).limit(limit).populate('userProfile', 'pfp handle'), // Populate with 'pfp' and 'handle',
-      Comment.countDocuments()
+      Comment.find({ ...visible, ...cursorFilter(cursor) }).sort(cursorSort(cursor)).limit(limit + 1).populate('userProfile', 'pfp handle verified'), // Populate with 'pfp', 'handle' and the verified badge
+      Comment.countDocuments(visible)
     ]);
+    const { items, pagination } = buildCursorPage(comments, limit, cursor);
     
     // Loop through comments to set the avatar field to pfp from the userProfile
-    for (const comment of comments) {
+    for (const comment of items) {
       if (comment.userProfile && comment.userProfile.pfp) {
         comment.avatar = comment.userProfile.pfp; // Set avatar to pfp
       }
     }
     
     res.json({
-      comments,
+      comments: await withCommentMetadata(items),
       pagination: {
-        currentPage: page,
-        totalPages: Math.ceil(total / limit),
-        totalComments: total,
-        hasMore: skip + comments.length < total
+        ...pagination,
+        totalComments: total
       }
     });
     
@@ -198,10 +600,35 @@ app.get('/api/comments/paginated', async (req, res) => {
   }
 });
 
+// Replies to a comment, oldest first
+app.get('/api/agents/:agentId/comments/:commentId/replies', async (req, res) => {
+  try {
+    const { agentId, commentId } = req.params;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const after = req.query.after ? new Date(req.query.after as string) : null;
+
+    const query: any = { agentId, parentId: commentId, deletedAt: null, heldForReview: { $ne: true } };
+    if (after) {
+      query.createdAt = { $gt: after };
+    }
+
+    const replies = await Comment.find(query)
+      .sort({ createdAt: 1 })
+      .limit(limit + 1)
+      .populate('userProfile', 'pfp handle verified');
+
+    const hasMore = replies.length > limit;
+    res.json({ replies: await withCommentMetadata(replies.slice(0, limit)), hasMore });
+  } catch (error) {
+    console.error('Error fetching replies:', error);
+    res.status(500).json({ error: 'Failed to fetch replies' });
+  }
+});
+
 // Count endpoints
 app.get('/api/likeCounts', async (req, res) => {
   try {
-    likeCount = await Like.countDocuments();
+    likeCount = (await platformStats()).likes;
     res.json({ likes: likeCount });
   } catch (error) {
     console.error('Error in /api/likeCounts:', error);
@@ -211,7 +638,7 @@ app.get('/api/likeCounts', async (req, res) => {
 
 app.get('/api/commentCounts', async (req, res) => {
   try {
-    commentCount = await Comment.countDocuments();
+    commentCount = (await platformStats()).comments;
     res.json({ commentCount });
   } catch (error) {
     console.error('Error in /api/commentCounts:', error);
@@ -219,22 +646,6 @@ app.get('/api/commentCounts', async (req, res) => {
   }
 });
 
-// Scene stats endpoint
-app.get('/api/streams/:agentId/stats', async (req, res) => {
-  const agentId = req.params.agentId;
-  try {
-    const likes = await Like.countDocuments({ agentId });
-    const comments = await Comment.countDocuments({ agentId });
-
-    console.log({ likes, comments, agentId });
-
-    res.json({ likes, comments });
-  } catch (error) {
-    console.error('Error in /api/scenes/:sceneIndex/stats:', error);
-    res.status(500).json({ error: 'Failed to get scene stats' });
-  }
-});
-
 // Add these interfaces near the top with other interfaces
 interface FetchCommentsResponse {
   success: boolean;
@@ -254,6 +665,8 @@ async function fetchComments(agentId: string, limit: number = 10): Promise<Fetch
     const comments = await Comment.find({
       agentId,
       readByAgent: false,
+      deletedAt: null,
+      heldForReview: { $ne: true },
       $expr: {
         $and: [
           { $gt: [{ $strLenCP: "$message" }, 3] },
@@ -270,10 +683,10 @@ async function fetchComments(agentId: string, limit: number = 10): Promise<Fetch
   }
 }
 
-async function markCommentsAsRead(commentIds: string[]): Promise<MarkCommentsReadResponse> {
+async function markCommentsAsRead(commentIds: string[], agentId: string): Promise<MarkCommentsReadResponse> {
   try {
     const result = await Comment.updateMany(
-      { id: { $in: commentIds } },
+      { agentId, id: { $in: commentIds } },
       { $set: { readByAgent: true } }
     );
 
@@ -301,15 +714,165 @@ async function verifyTrustedUser(pk: string, agentId: string) {
     return false;
 }
 
-app.get('/api/streams/:agentId/unread-comments', async (req, res) => {
+// Agent owners are the wallets configured on the stream, admins can act on any agent
+async function verifyAgentOwner(pk: string, agentId: string) {
+  if (!pk || !agentId) {
+    return false;
+  }
+  if (isAdminPk(pk)) {
+    return true;
+  }
+  const streamingStatus = await StreamingStatus.findOne({ agentId });
+  return streamingStatus?.dPublicKey === pk || streamingStatus?.walletAddress === pk;
+}
+
+// Must run after web3Auth, rejects wallets that do not own req.params.agentId
+const requireAgentOwner: express.RequestHandler = async (req, res, next) => {
+  try {
+    const isOwner = await verifyAgentOwner(authorizedPk(res), req.params.agentId);
+    if (!isOwner) {
+      return res.status(403).json({ error: 'Not the owner of this agent' });
+    }
+    next();
+  } catch (error) {
+    console.error('Error verifying agent owner:', error);
+    res.status(500).json({ error: 'Failed to verify agent owner' });
+  }
+};
+
+// Scene updates come from the agent runtime (API key with the `stream` scope) or the owner's wallet
+const sceneApiKeyAuth = agentApiKeyAuth({ scope: 'stream', getAgentId: (req) => req.params.agentId });
+const sceneWalletAuth = web3Auth({ action: 'scene:update' });
+const requireSceneWriter: express.RequestHandler = (req, res, next) => {
+  if (req.header('api_key')) {
+    return sceneApiKeyAuth(req, res, next);
+  }
+  sceneWalletAuth(req, res, (error?: any) => error ? next(error) : requireAgentOwner(req, res, next));
+};
+
+// Fields the scene endpoints never write: settings have their own owner routes, stats are kept by the server
+const SCENE_PROTECTED_FIELDS = ['moderators', 'acceptedMints', 'mintRates', 'rateLimits', 'wordFilter', 'scoringWeights', 'webhookSecret', 'stats'];
+// Who owns the agent and where its gifts are paid out, only changed with the owner's wallet
+const SCENE_OWNERSHIP_FIELDS = ['walletAddress', 'dPublicKey'];
+
+// Status fields only the owner and moderators need, left out of the global broadcasts
+const PRIVATE_STATUS_FIELDS = ['moderators', 'rateLimits', 'wordFilter', 'scoringWeights', 'webhookSecret'];
+
+function publicStreamStatus(status: any) {
+  const plain = typeof status?.toObject === 'function' ? status.toObject() : { ...status };
+  for (const field of PRIVATE_STATUS_FIELDS) {
+    delete plain[field];
+  }
+  return plain;
+}
+
+// Moderators are the agent owner, admins and the wallets in StreamingStatus.moderators
+async function verifyAgentModerator(pk: string, agentId: string) {
+  if (await verifyAgentOwner(pk, agentId)) {
+    return true;
+  }
+  const streamingStatus = await StreamingStatus.findOne({ agentId, moderators: pk });
+  return !!streamingStatus;
+}
+
+// Must run after web3Auth, rejects wallets that cannot moderate req.params.agentId
+const requireAgentModerator: express.RequestHandler = async (req, res, next) => {
+  try {
+    const isModerator = await verifyAgentModerator(authorizedPk(res), req.params.agentId);
+    if (!isModerator) {
+      return res.status(403).json({ error: 'Not a moderator of this agent' });
+    }
+    next();
+  } catch (error) {
+    console.error('Error verifying agent moderator:', error);
+    res.status(500).json({ error: 'Failed to verify agent moderator' });
+  }
+};
+
+// Bans and timeouts in force for an agent's chat, global ones included
+function activeSanctionQuery(agentId?: string) {
+  const now = new Date();
+  return {
+    liftedAt: null,
+    $and: [
+      { $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }] },
+      { $or: [{ agentId: null }, ...(agentId ? [{ agentId }] : [])] }
+    ]
+  };
+}
+
+async function findActiveSanction(publicKey: string | null, agentId?: string) {
+  if (!publicKey) {
+    return null;
+  }
+  return ChatSanction.findOne({ publicKey, ...activeSanctionQuery(agentId) }).sort({ expiresAt: -1 });
+}
+
+// Comment priority scoring, see utils/commentScoring.ts for the scorers
+const PRIORITY_CANDIDATE_POOL = 200;
+
+// Loads what the scorers need about the comments' authors, then ranks the comments
+async function rankAgentComments<T extends { id: string; user: string; message: string; createdAt: Date; addressesAgent?: boolean }>(
+  agentId: string,
+  comments: T[]
+) {
+  const now = new Date();
+  const users = [...new Set(comments.map(comment => comment.user))].filter(user => user !== ANONYMOUS_USER);
+
+  const [gifts, likes, firstComments, { scoringWeights }] = await Promise.all([
+    GiftTransaction.aggregate([
+      {
+        $match: {
+          recipientAgentId: agentId,
+          senderPublicKey: { $in: users },
+          createdAt: { $gte: new Date(now.getTime() - 24 * 60 * 60 * 1000) }
+        }
+      },
+      { $group: { _id: '$senderPublicKey', coins: { $sum: '$coinsTotal' } } }
+    ]),
+    Like.aggregate([
+      { $match: { agentId, user: { $in: users }, createdAt: { $gte: new Date(now.getTime() - 60 * 60 * 1000) } } },
+      { $group: { _id: '$user', count: { $sum: 1 } } }
+    ]),
+    Comment.aggregate([
+      { $match: { agentId, user: { $in: users } } },
+      { $group: { _id: '$user', firstCommentAt: { $min: '$createdAt' } } }
+    ]),
+    getAgentSettings(agentId)
+  ]);
+
+  return rankComments(
+    comments,
+    {
+      now,
+      giftCoinsByUser: new Map(gifts.map(entry => [entry._id, entry.coins])),
+      likesByUser: new Map(likes.map(entry => [entry._id, entry.count])),
+      firstCommentAtByUser: new Map(firstComments.map(entry => [entry._id, entry.firstCommentAt])),
+      duplicateIds: findDuplicateComments(comments)
+    },
+    resolveScoringWeights(scoringWeights)
+  );
+}
+
+app.get('/api/streams/:agentId/unread-comments',
+  agentApiKeyAuth({ scope: 'read-comments', getAgentId: (req) => req.params.agentId }),
+  async (req, res) => {
   try {
     const { agentId } = req.params;
     const limit = parseInt(req.query.limit as string) || 10;
     const since = req.query.since ? new Date(req.query.since as string) : null;
+    const addressedOnly = req.query.addressed === 'true';
+    const byPriority = req.query.sort === 'priority';
+
+    // Wallets banned or timed out in this chat are not worth the agent's attention
+    const sanctionedUsers = await ChatSanction.distinct('publicKey', activeSanctionQuery(agentId));
 
     const query: any = {
       agentId,
       // readByAgent: false,
+      deletedAt: null,
+      heldForReview: { $ne: true },
+      user: { $nin: sanctionedUsers },
       $expr: {
         $and: [
           { $gt: [{ $strLenCP: "$message" }, 3] },
@@ -322,10 +885,15 @@ app.get('/api/streams/:agentId/unread-comments', async (req, res) => {
     if (since) {
       query.createdAt = { $gt: since };
     }
+    // Only comments that mention the agent or reply to it
+    if (addressedOnly) {
+      query.addressesAgent = true;
+    }
 
+    // Ranking looks at a wider pool of recent comments than it returns
     const comments = await Comment.find(query)
     .sort({ createdAt: -1 })
-    .limit(limit)
+    .limit(byPriority ? PRIORITY_CANDIDATE_POOL : limit)
     .populate('userProfile', 'pfp handle'); // Populate user profile with 'pfp' and 'handle'
 
   // Loop through comments to set the avatar field to pfp from the userProfile
@@ -335,8 +903,26 @@ app.get('/api/streams/:agentId/unread-comments', async (req, res) => {
     }
   }
 
+  if (byPriority) {
+    const ranked = (await rankAgentComments(agentId, comments)).slice(0, limit);
+    const withMetadata = await withCommentMetadata(ranked.map(entry => entry.comment));
+    return res.json({
+      comments: withMetadata.map((comment, i) => ({
+        ...comment,
+        score: ranked[i].score,
+        scoreBreakdown: ranked[i].breakdown
+      })),
+      metadata: {
+        count: ranked.length,
+        since: since?.toISOString(),
+        hasMore: comments.length > limit,
+        sort: 'priority'
+      }
+    });
+  }
+
   res.json({
-    comments,
+    comments: await withCommentMetadata(comments),
     metadata: {
       count: comments.length,
       since: since?.toISOString(),
@@ -351,25 +937,173 @@ app.get('/api/streams/:agentId/unread-comments', async (req, res) => {
 });
 
 
-// Add this near the top where other state variables are defined
-const agentViewers = new Map<string, Set<string>>();
+// Leased inbox for agent runtimes: comments, gifts and room messages in one queue.
+// Leased entries are hidden from other workers until acked, nacked or the lease expires.
+const MAX_INBOX_LEASE = 50;
+const MAX_PARKED_LISTING = 100;
+
+function parseReceipts(receipts: any): string[] | null {
+  if (!Array.isArray(receipts) || !receipts.length || receipts.some(receipt => typeof receipt !== 'string')) {
+    return null;
+  }
+  return receipts;
+}
+
+app.post('/api/agents/:agentId/inbox',
+  agentApiKeyAuth({ scope: 'read-comments', getAgentId: (req) => req.params.agentId }),
+  async (req, res) => {
+    try {
+      const { agentId } = req.params;
+      const limit = Math.min(Math.max(parseInt(req.body.limit) || 10, 1), MAX_INBOX_LEASE);
+      const visibilityTimeoutSeconds = Math.min(
+        Math.max(parseInt(req.body.visibilityTimeoutSeconds) || DEFAULT_VISIBILITY_TIMEOUT_SECONDS, 1),
+        MAX_VISIBILITY_TIMEOUT_SECONDS
+      );
+      const types: InboxItemType[] = req.body.types || INBOX_ITEM_TYPES;
+      if (!Array.isArray(types) || types.some(type => !INBOX_ITEM_TYPES.includes(type))) {
+        return res.status(400).json({ error: `types must be a list of: ${INBOX_ITEM_TYPES.join(', ')}` });
+      }
+
+      const leases = await leaseInboxItems(agentId, { limit, visibilityTimeoutSeconds, types });
+      const idsOf = (type: InboxItemType) => leases.filter(lease => lease.type === type).map(lease => lease.itemId);
+
+      const [comments, gifts, roomMessages, sanctionedUsers] = await Promise.all([
+        Comment.find({ agentId, id: { $in: idsOf('comment') }, deletedAt: null, heldForReview: { $ne: true } })
+          .populate('userProfile', 'pfp handle'),
+        GiftTransaction.find({ recipientAgentId: agentId, _id: { $in: idsOf('gift') } }),
+        RoomMessage.find({ id: { $in: idsOf('room_message') } }),
+        ChatSanction.distinct('publicKey', activeSanctionQuery(agentId))
+      ]);
+      const sources = new Map<string, any>([
+        ...comments
+          .filter(comment => !sanctionedUsers.includes(comment.user))
+          .map(comment => [`comment:${comment.id}`, comment] as const),
+        ...gifts.map(gift => [`gift:${gift._id.toString()}`, gift] as const),
+        ...roomMessages.map(message => [`room_message:${message.id}`, message] as const)
+      ]);
+
+      // Entries whose item was removed (or whose author was sanctioned) since it was queued are dropped
+      const stale = leases.filter(lease => !sources.has(`${lease.type}:${lease.itemId}`));
+      if (stale.length) {
+        await ackInboxItems(agentId, stale.map(lease => lease.receipt));
+      }
+
+      const items = leases
+        .filter(lease => sources.has(`${lease.type}:${lease.itemId}`))
+        .map(lease => ({ ...lease, item: sources.get(`${lease.type}:${lease.itemId}`) }));
+
+      res.json({ items, visibilityTimeoutSeconds });
+    } catch (error) {
+      console.error('Error leasing inbox items:', error);
+      res.status(500).json({ error: 'Failed to lease inbox items' });
+    }
+});
+
+app.post('/api/agents/:agentId/inbox/ack',
+  agentApiKeyAuth({ scope: 'read-comments', getAgentId: (req) => req.params.agentId }),
+  async (req, res) => {
+    try {
+      const { agentId } = req.params;
+      const receipts = parseReceipts(req.body.receipts);
+      if (!receipts) {
+        return res.status(400).json({ error: 'receipts must be a non-empty array of strings' });
+      }
+
+      const { settled, failed, entries } = await ackInboxItems(agentId, receipts);
+
+      // Keep the readByAgent flags of the older endpoints in sync
+      const idsOf = (type: InboxItemType) => entries.filter(entry => entry.type === type).map(entry => entry.itemId);
+      await Promise.all([
+        Comment.updateMany({ agentId, id: { $in: idsOf('comment') } }, { $set: { readByAgent: true } }),
+        GiftTransaction.updateMany({ recipientAgentId: agentId, _id: { $in: idsOf('gift') } }, { $set: { readByAgent: true } }),
+        RoomMessage.updateMany({ id: { $in: idsOf('room_message') } }, { $set: { readByAgent: true } })
+      ]);
+
+      res.json({ success: true, acked: settled, failed });
+    } catch (error) {
+      console.error('Error acking inbox items:', error);
+      res.status(500).json({ error: 'Failed to ack inbox items' });
+    }
+});
+
+app.post('/api/agents/:agentId/inbox/nack',
+  agentApiKeyAuth({ scope: 'read-comments', getAgentId: (req) => req.params.agentId }),
+  async (req, res) => {
+    try {
+      const { agentId } = req.params;
+      const receipts = parseReceipts(req.body.receipts);
+      if (!receipts) {
+        return res.status(400).json({ error: 'receipts must be a non-empty array of strings' });
+      }
+      const delaySeconds = Math.min(Math.max(Number(req.body.delaySeconds) || 0, 0), MAX_VISIBILITY_TIMEOUT_SECONDS);
+
+      const { settled, failed } = await nackInboxItems(agentId, receipts, delaySeconds);
+      res.json({ success: true, nacked: settled, failed });
+    } catch (error) {
+      console.error('Error nacking inbox items:', error);
+      res.status(500).json({ error: 'Failed to nack inbox items' });
+    }
+});
+
+app.get('/api/agents/:agentId/inbox/parked',
+  agentApiKeyAuth({ scope: 'read-comments', getAgentId: (req) => req.params.agentId }),
+  async (req, res) => {
+    try {
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), MAX_PARKED_LISTING);
+      const items = await listParkedInboxItems(req.params.agentId, limit);
+      res.json({ items });
+    } catch (error) {
+      console.error('Error listing parked inbox items:', error);
+      res.status(500).json({ error: 'Failed to list parked inbox items' });
+    }
+});
+
+app.post('/api/agents/:agentId/inbox/parked/requeue',
+  agentApiKeyAuth({ scope: 'read-comments', getAgentId: (req) => req.params.agentId }),
+  async (req, res) => {
+    try {
+      const { items } = req.body;
+      if (!Array.isArray(items) || !items.length || items.length > MAX_PARKED_LISTING ||
+        items.some(item => !INBOX_ITEM_TYPES.includes(item?.type) || typeof item.itemId !== 'string')) {
+        return res.status(400).json({ error: `items must be a list of up to ${MAX_PARKED_LISTING} { type, itemId }` });
+      }
+
+      const requeued = await requeueInboxItems(
+        req.params.agentId,
+        items.map(({ type, itemId }) => ({ type, itemId }))
+      );
+      res.json({ success: true, requeued });
+    } catch (error) {
+      console.error('Error requeueing inbox items:', error);
+      res.status(500).json({ error: 'Failed to requeue inbox items' });
+    }
+});
 
 // Add near top with other state variables
 const socketToStream = new Map<string, string>();
 
-// Helper function to emit stream counts
+// Helper function to emit stream counts (unique viewers per agent)
 function emitStreamCounts() {
   const streamCounts = Object.fromEntries(
-    Array.from(agentViewers.entries()).map(([agentId, viewers]) => [
-      agentId,
-      viewers.size
-    ])
+    watchedAgentIds().map(agentId => [agentId, uniqueViewerCount(agentId)])
   );
 
   console.log('Emitting stream counts:', streamCounts);
   io.emit('stream_counts', streamCounts);
 }
 
+// `count` is kept for older clients and equals `viewers`
+function emitViewerCount(agentId: string) {
+  const { viewers, connections } = viewerCounts(agentId);
+  emitToAgent(agentId, 'viewer_count', { count: viewers, viewers, connections });
+}
+
+// A viewer's reconnect grace period ran out
+function onViewerDeparted(agentId: string) {
+  emitViewerCount(agentId);
+  emitStreamCounts();
+}
+
 
 
 // Graceful shutdown
@@ -399,36 +1133,226 @@ httpServer.listen(PORT, () => {
 });
 
 
-// Get all gifts for a specific agent with optional pagination
-app.get('/api/agents/:agentId/gifts', async (req, res) => {
+// Gift catalog endpoints
+// Public listing of the gifts viewers can send, with their authoritative prices
+app.get('/api/gifts', async (req, res) => {
   try {
-    const { agentId } = req.params;
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 10;
-    const readByAgent = req.query.readByAgent === 'true';
-    const skip = (page - 1) * limit;
+    const gifts = await Gift.find({ isActive: true }).sort({ sortOrder: 1, coins: 1 });
+    res.json({ gifts });
+  } catch (error) {
+    console.error('Error fetching gift catalog:', error);
+    res.status(500).json({ error: 'Failed to fetch gift catalog' });
+  }
+});
 
-    // Create filter object
-    const filter = {
-      recipientAgentId: agentId,
-      ...(req.query.readByAgent !== undefined && { readByAgent })
-    };
+function validateGiftInput(input: any, partial = false): string | null {
+  const { name, icon, coins, isActive, sortOrder } = input;
+  if (!partial || name !== undefined) {
+    if (typeof name !== 'string' || !name.trim()) return 'name must be a non-empty string';
+  }
+  if (!partial || icon !== undefined) {
+    if (typeof icon !== 'string' || !icon.trim()) return 'icon must be a non-empty string';
+  }
+  if (!partial || coins !== undefined) {
+    if (typeof coins !== 'number' || !Number.isFinite(coins) || coins <= 0) return 'coins must be a positive number';
+  }
+  if (isActive !== undefined && typeof isActive !== 'boolean') return 'isActive must be a boolean';
+  if (sortOrder !== undefined && typeof sortOrder !== 'number') return 'sortOrder must be a number';
+  return null;
+}
 
-    const [gifts, total] = await Promise.all([
-      GiftTransaction.find(filter)
-        .sort({ createdAt: -1 })
-        .skip(skip)
-        .limit(limit),
-      GiftTransaction.countDocuments(filter)
-    ]);
+// Admin listing, including disabled gifts
+app.get('/api/admin/gifts',
+  web3Auth({ action: 'gift:read', allowSkipCheck: true }),
+  requireAdmin,
+  async (req, res) => {
+    try {
+      const gifts = await Gift.find({}).sort({ sortOrder: 1, coins: 1 });
+      res.json({ gifts });
+    } catch (error) {
+      console.error('Error fetching gift catalog:', error);
+      res.status(500).json({ error: 'Failed to fetch gift catalog' });
+    }
+});
+
+app.post('/api/admin/gifts',
+  web3Auth({ action: 'gift:create' }),
+  requireAdmin,
+  async (req, res) => {
+    try {
+      const validationError = validateGiftInput(req.body);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      const { name, icon, coins, isActive, sortOrder } = req.body;
+      const existingGift = await Gift.findOne({ name });
+      if (existingGift) {
+        return res.status(409).json({ error: 'A gift with this name already exists' });
+      }
+
+      const gift = await Gift.create({ name, icon, coins, isActive, sortOrder });
+      res.status(201).json(gift);
+    } catch (error) {
+      console.error('Error creating gift:', error);
+      res.status(500).json({ error: 'Failed to create gift' });
+    }
+});
+
+app.put('/api/admin/gifts/:giftId',
+  web3Auth({ action: 'gift:update' }),
+  requireAdmin,
+  async (req, res) => {
+    try {
+      const { giftId } = req.params;
+      if (!mongoose.isValidObjectId(giftId)) {
+        return res.status(400).json({ error: 'Invalid giftId' });
+      }
+
+      const validationError = validateGiftInput(req.body, true);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      const { name, icon, coins, isActive, sortOrder } = req.body;
+      const gift = await Gift.findByIdAndUpdate(
+        giftId,
+        {
+          $set: {
+            ...(name !== undefined && { name }),
+            ...(icon !== undefined && { icon }),
+            ...(coins !== undefined && { coins }),
+            ...(isActive !== undefined && { isActive }),
+            ...(sortOrder !== undefined && { sortOrder }),
+            updatedAt: new Date()
+          }
+        },
+        { new: true, runValidators: true }
+      );
+
+      if (!gift) {
+        return res.status(404).json({ error: 'Gift not found' });
+      }
+
+      res.json(gift);
+    } catch (error) {
+      console.error('Error updating gift:', error);
+      res.status(500).json({ error: 'Failed to update gift' });
+    }
+});
+
+// Past transactions keep their giftId, prefer disabling a gift with isActive: false
+app.delete('/api/admin/gifts/:giftId',
+  web3Auth({ action: 'gift:delete' }),
+  requireAdmin,
+  async (req, res) => {
+    try {
+      const { giftId } = req.params;
+      if (!mongoose.isValidObjectId(giftId)) {
+        return res.status(400).json({ error: 'Invalid giftId' });
+      }
+
+      const deletedGift = await Gift.findByIdAndDelete(giftId);
+      if (!deletedGift) {
+        return res.status(404).json({ error: 'Gift not found' });
+      }
+
+      res.json({ success: true, message: 'Gift deleted' });
+    } catch (error) {
+      console.error('Error deleting gift:', error);
+      res.status(500).json({ error: 'Failed to delete gift' });
+    }
+});
+
+// Resolve where an agent's gifts are paid out and which tokens it accepts
+async function resolveGiftRecipient(agentId: string) {
+  if (!agentId) {
+    return { success: false, status: 400, error: 'agentId is required' };
+  }
+
+  // Gifts are only paid to the wallet the owner set on the stream. The agent map's walletAddress
+  // can be written without authentication, so it is never used for payouts.
+  const streamingStatus = await StreamingStatus.findOne({ agentId });
+  if (!streamingStatus) {
+    return { success: false, status: 404, error: 'Agent not found' };
+  }
+
+  const walletAddress = streamingStatus.walletAddress;
+  if (!walletAddress) {
+    return { success: false, status: 422, error: 'Agent has no payout wallet configured' };
+  }
+
+  const tokensPerCoin = acceptedMintRates(streamingStatus);
+  return { success: true, status: 200, walletAddress, acceptedMints: Object.keys(tokensPerCoin), tokensPerCoin };
+}
+
+// What one catalog coin costs in each token an agent accepts. Mints without a price are not
+// accepted, except AIKO which defaults to one token per coin.
+function acceptedMintRates(streamingStatus: any): Record<string, number> {
+  const mints: string[] = streamingStatus?.acceptedMints?.length
+    ? [...streamingStatus.acceptedMints]
+    : [AIKO_MINT_ADDRESS];
+  const rates: Record<string, number> = {};
+  for (const mint of mints) {
+    const rate = streamingStatus?.mintRates?.get(mint) ?? (mint === AIKO_MINT_ADDRESS ? 1 : null);
+    if (rate > 0) {
+      rates[mint] = rate;
+    }
+  }
+  return rates;
+}
+
+// Resolve a catalog gift and quantity into what the viewer has to pay
+async function priceGift(giftId: string, quantity: number) {
+  if (!giftId || !mongoose.isValidObjectId(giftId)) {
+    return { success: false, error: 'Invalid giftId' };
+  }
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    return { success: false, error: 'quantity must be a positive integer' };
+  }
+
+  const gift = await Gift.findOne({ _id: giftId, isActive: true });
+  if (!gift) {
+    return { success: false, error: 'Gift not found' };
+  }
+  // Gifts are paid for on-chain, a free one could never be verified
+  if (!(gift.coins > 0)) {
+    return { success: false, error: 'Gift has no price' };
+  }
+
+  return { success: true, gift, coinsTotal: gift.coins * quantity };
+}
+
+// Get all gifts for a specific agent with optional pagination
+app.get('/api/agents/:agentId/gifts', async (req, res) => {
+  try {
+    const { agentId } = req.params;
+    const limit = pageSize(req.query.limit, 10);
+    const readByAgent = req.query.readByAgent === 'true';
+    const cursor = decodeCursor(req.query.cursor);
+    if (req.query.cursor && !cursor) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+
+    // Create filter object
+    const filter = {
+      recipientAgentId: agentId,
+      ...(req.query.readByAgent !== undefined && { readByAgent })
+    };
+
+    const [gifts, total] = await Promise.all([
+      GiftTransaction.find({ ...filter, ...cursorFilter(cursor) })
+        .sort(cursorSort(cursor))
+        .limit(limit + 1),
+      GiftTransaction.countDocuments(filter)
+    ]);
+    const { items, pagination } = buildCursorPage(gifts, limit, cursor);
 
     res.json({
-      gifts,
+      gifts: items,
       pagination: {
-        currentPage: page,
-        totalPages: Math.ceil(total / limit),
-        totalGifts: total,
-        hasMore: skip + gifts.length < total
+        ...pagination,
+        totalGifts: total
       }
     });
   } catch (error) {
@@ -471,25 +1395,18 @@ app.put('/api/agents/:agentId/gifts/mark-read', async (req, res) => {
 app.get('/api/agents/:agentId/top-gifters', async (req, res) => {
   try {
     const { agentId } = req.params;
-    const limit = parseInt(req.query.limit as string) || 10;
-    const timeframe = req.query.timeframe || 'all';
-
-    // Create date filter based on timeframe
-    const dateFilter = {};
-    const now = new Date();
-    if (timeframe === 'day') {
-      dateFilter['createdAt'] = { $gte: new Date(now.setDate(now.getDate() - 1)) };
-    } else if (timeframe === 'week') {
-      dateFilter['createdAt'] = { $gte: new Date(now.setDate(now.getDate() - 7)) };
-    } else if (timeframe === 'month') {
-      dateFilter['createdAt'] = { $gte: new Date(now.setMonth(now.getMonth() - 1)) };
+    const limit = pageSize(req.query.limit, 10);
+    const timeframe = (req.query.timeframe as string) || 'all';
+    const timeframeError = validateTimeframe(timeframe);
+    if (timeframeError) {
+      return res.status(400).json({ error: timeframeError });
     }
 
     const topGifters = await GiftTransaction.aggregate([
       {
         $match: {
           recipientAgentId: agentId,
-          ...dateFilter
+          ...timeRangeMatch(resolveTimeframe(timeframe))
         }
       },
       {
@@ -512,24 +1429,17 @@ app.get('/api/agents/:agentId/top-gifters', async (req, res) => {
       },
       {
         $limit: limit
-      }
+      },
+      ...profileLookupStages()
     ]);
 
-    // Fetch user profiles for all gifters in parallel
-    const giftersWithProfiles = await Promise.all(
-      topGifters.map(async (gifter) => {
-        const userProfile = await UserProfile.findOne({ publicKey: gifter._id });
-        return {
-          ...gifter,
-          handle: userProfile?.handle || undefined,
-          pfp: userProfile?.pfp || undefined
-        };
-      })
-    );
-
     res.json({
       timeframe,
-      topGifters: giftersWithProfiles
+      topGifters: topGifters.map(({ profile, ...gifter }) => ({
+        ...gifter,
+        handle: profile?.handle || undefined,
+        pfp: profile?.pfp || undefined
+      }))
     });
   } catch (error) {
     console.error('Error fetching top gifters:', error);
@@ -538,9 +1448,13 @@ app.get('/api/agents/:agentId/top-gifters', async (req, res) => {
 });
 
 // Add RPC endpoint and connection configuration
+// Point SOLANA_RPC_URL at a local validator (e.g. http://127.0.0.1:8899) to test gifts end to end
 const endpoint = process.env.SOLANA_RPC_URL;
 const solanaConnection = new Connection(endpoint, 'confirmed');
 
+// Token gifts are paid in
+const AIKO_MINT_ADDRESS = 'mdx5dxD754H8uGrz6Wc96tZfFjPqSgBvqUDbKycpump';
+
 // Common token decimals
 const TOKEN_DECIMALS: { [key: string]: number } = {
   'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v': 6, // USDC
@@ -548,6 +1462,19 @@ const TOKEN_DECIMALS: { [key: string]: number } = {
   'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263': 5, // BONK
 };
 
+// A mint's decimals never change, so each is read from the chain once
+const mintDecimalsCache = new Map<string, number>();
+
+async function mintDecimals(mint: PublicKey): Promise<number> {
+  const address = mint.toBase58();
+  let decimals = mintDecimalsCache.get(address);
+  if (decimals === undefined) {
+    decimals = (await getMint(solanaConnection, mint, 'confirmed', TOKEN_PROGRAM_ID)).decimals;
+    mintDecimalsCache.set(address, decimals);
+  }
+  return decimals;
+}
+
 // Add new routes before your existing routes
 app.get('/balance/token/:walletAddress/:mintAddress', async (req, res) => {
   try {
@@ -590,53 +1517,109 @@ app.get('/balance/token/:walletAddress/:mintAddress', async (req, res) => {
 });
 
 
-// Add these helper functions before the route
-const filter = new Filter();
-
-// Remove overly strict words from the filter
-filter.removeWords(
-  'poop',
-  'gay',
-  'hell',
-  'damn',
-  'god',
-  'jesus',
-  'crap',
-  'darn',
-  'idiot',
-  'stupid',
-  'dumb',
-  'weird',
-  'sucks',
-  'wtf',
-  'omg',
-  'butt',
-  'fart',
-  'sexy',
-  'sex',
-  'hate',
-  'drunk',
-  'drugs',
-  'drug',
-  'faggot'
-);
-
 function isValidHandle(handle: string): boolean {
   // Check if handle contains profanity
-  // if (filter.isProfane(handle)) {
-  //   return false;
-  // }
+  if (defaultWordMatcher.hasProfanity(handle)) {
+    return false;
+  }
 
   // Additional handle validation rules
   const validHandleRegex = /^[a-zA-Z0-9_-]{3,20}$/;
   return validHandleRegex.test(handle);
 }
 
+// Names viewers cannot take as their handle, keyed by lookalike form. Agent names and stream
+// creators stay available to their owner's wallets; configured names (null) only to admins.
+let reservedHandlesCache: { reserved: Map<string, Set<string> | null>; fetchedAt: number } | null = null;
+const RESERVED_HANDLES_CACHE_MS = 60 * 1000;
+
+async function getReservedHandles(): Promise<Map<string, Set<string> | null>> {
+  if (reservedHandlesCache && Date.now() - reservedHandlesCache.fetchedAt < RESERVED_HANDLES_CACHE_MS) {
+    return reservedHandlesCache.reserved;
+  }
+
+  const reserved = new Map<string, Set<string> | null>();
+  const reserve = (name: string | undefined, owners: (string | undefined)[]) => {
+    const key = handleLookalikeKey(name || '');
+    if (!key || reserved.get(key) === null) {
+      return;
+    }
+    const wallets = reserved.get(key) || new Set<string>();
+    owners.filter(Boolean).forEach(owner => wallets.add(owner));
+    reserved.set(key, wallets);
+  };
+
+  for (const name of configuredReservedHandles()) {
+    const key = handleLookalikeKey(name);
+    if (key) {
+      reserved.set(key, null);
+    }
+  }
+
+  const [agentMap, streams] = await Promise.all([
+    AgentMap.findOne({ _id: "global_agent_map" }),
+    StreamingStatus.find(
+      { 'creator.username': { $exists: true, $ne: '' } },
+      { 'creator.username': 1, walletAddress: 1, dPublicKey: 1 }
+    ).lean()
+  ]);
+  for (const agent of agentMap?.agents?.values() || []) {
+    reserve(agent.name, [agent.walletAddress]);
+  }
+  for (const stream of streams) {
+    reserve(stream.creator?.username, [stream.walletAddress, stream.dPublicKey]);
+  }
+
+  reservedHandlesCache = { reserved, fetchedAt: Date.now() };
+  return reserved;
+}
+
+// Checks that `publicKey` may use `handle`: not reserved for someone else and not taken in any casing
+async function checkHandleAvailable(handle: string, publicKey: string, signerPk: string) {
+  if (!isAdminPk(signerPk)) {
+    const reserved = await getReservedHandles();
+    const key = handleLookalikeKey(handle);
+    if (reserved.has(key) && !reserved.get(key)?.has(publicKey)) {
+      return { success: false, status: 403, error: 'Handle is reserved' };
+    }
+  }
+
+  const existingProfile = await UserProfile.findOne({ handleNormalized: normalizeHandle(handle) });
+  if (existingProfile && existingProfile.publicKey !== publicKey) {
+    return { success: false, status: 409, error: 'Handle already taken' };
+  }
+  return { success: true };
+}
+
 function isValidUUID(input: string): boolean {
   return uuidRegex.test(input);
 }
 
 
+// Issue a single-use nonce that the next signed web3Auth message must include
+app.get('/api/auth/challenge',
+  restRateLimit('rest:auth', (req) => req.query.publicKey as string),
+  async (req, res) => {
+  try {
+    const publicKey = req.query.publicKey as string;
+    if (!publicKey) {
+      return res.status(400).json({ error: 'publicKey is required' });
+    }
+
+    try {
+      new PublicKey(publicKey);
+    } catch (error) {
+      return res.status(400).json({ error: 'Invalid publicKey' });
+    }
+
+    const challenge = await issueWeb3AuthChallenge(publicKey);
+    res.json(challenge);
+  } catch (error) {
+    console.error('Error issuing auth challenge:', error);
+    res.status(500).json({ error: 'Failed to issue auth challenge' });
+  }
+});
+
 // Get a user profile by public key
 app.get('/api/user-profile/:publicKey', async (req, res) => {
   try {
@@ -657,7 +1640,13 @@ app.get('/api/user-profile/:publicKey', async (req, res) => {
 });
 
 // Update a user profile by public key
-app.put('/api/user-profile/:publicKey', imageUpload, async (req, res) => {
+app.put('/api/user-profile/:publicKey',
+  restRateLimit('rest:profile'),
+  imageUpload,
+  web3Auth({ action: 'profile:update' }),
+  restWalletRateLimit('rest:profile'),
+  requireSelfOrAdmin((req) => req.params.publicKey),
+  async (req, res) => {
   try {
     console.log('updating user profile', req.body);
     const { publicKey } = req.params;
@@ -679,10 +1668,10 @@ app.put('/api/user-profile/:publicKey', imageUpload, async (req, res) => {
         });
       }
 
-      // Check if the handle is already taken by another user
-      const existingProfile = await UserProfile.findOne({ handle });
-      if (existingProfile && existingProfile.publicKey !== publicKey) {
-        return res.status(409).json({ error: 'Handle already taken' });
+      // Check the handle is not reserved or already taken by another user
+      const availability = await checkHandleAvailable(handle, publicKey, authorizedPk(res));
+      if (!availability.success) {
+        return res.status(availability.status).json({ error: availability.error });
       }
     }
     // original file name
@@ -705,7 +1694,7 @@ app.put('/api/user-profile/:publicKey', imageUpload, async (req, res) => {
     const updatedUserProfile = await UserProfile.findOneAndUpdate(
       { publicKey },
       {
-        ...(handle && { handle }),
+        ...(handle && { handle, handleNormalized: normalizeHandle(handle), handleRenameRequired: false }),
         ...(isUploading === "true"
           ? pfp && { pfp: pfpUrl.url }
           : pfp && { pfp: pfpUrl.url }) // If isUploading is false, just use the pfp directly
@@ -719,13 +1708,22 @@ app.put('/api/user-profile/:publicKey', imageUpload, async (req, res) => {
     
     res.json(updatedUserProfile);
   } catch (error) {
+    // Lost a race for the same handle against another wallet
+    if (error?.code === 11000 && error?.keyPattern?.handleNormalized) {
+      return res.status(409).json({ error: 'Handle already taken' });
+    }
     console.error('Error updating user profile:', error);
     res.status(500).json({ error: 'Failed to update user profile' });
   }
 });
 
 // Delete a user profile by public key
-app.delete('/api/user-profiles/:publicKey', async (req, res) => {
+app.delete('/api/user-profiles/:publicKey',
+  restRateLimit('rest:profile'),
+  web3Auth({ action: 'profile:delete' }),
+  restWalletRateLimit('rest:profile'),
+  requireSelfOrAdmin((req) => req.params.publicKey),
+  async (req, res) => {
   try {
     const { publicKey } = req.params;
     const deletedUserProfile = await UserProfile.findOneAndDelete({ publicKey });
@@ -741,43 +1739,94 @@ app.delete('/api/user-profiles/:publicKey', async (req, res) => {
   }
 });
 
+// Grant or remove a profile's verified badge
+app.put('/api/admin/user-profiles/:publicKey/verified',
+  web3Auth({ action: 'profile:verify' }),
+  requireAdmin,
+  async (req, res) => {
+    try {
+      const { publicKey } = req.params;
+      const { verified } = req.body;
+      if (typeof verified !== 'boolean') {
+        return res.status(400).json({ error: 'verified must be a boolean' });
+      }
+
+      const profile = await UserProfile.findOneAndUpdate(
+        { publicKey },
+        verified
+          ? { $set: { verified: true, verifiedAt: new Date(), verifiedBy: authorizedPk(res) } }
+          : { $set: { verified: false }, $unset: { verifiedAt: 1, verifiedBy: 1 } },
+        { new: true }
+      );
+      if (!profile) {
+        return res.status(404).json({ error: 'User profile not found' });
+      }
+      res.json(profile);
+    } catch (error) {
+      console.error('Error updating verified badge:', error);
+      res.status(500).json({ error: 'Failed to update verified badge' });
+    }
+});
+
 // Add these interfaces near the top with other interfaces
 interface ChatMessage {
   id: string;
+  messageId?: string; // The `id` replies and reactions refer to
   type: 'comment' | 'ai_response';
   message: string;
   createdAt: Date;
   sender?: string;
   handle?: string;
   avatar?: string;
+  thought?: boolean;
+  replyToUser?: string;
+  replyToMessageId?: string;
+  replyToHandle?: string;
+  replyToPfp?: string;
+  parentId?: string;
+  reactions?: Record<string, number>;
+  audioUrl?: string;
+  animation?: string;
+  isGiftResponse?: boolean;
 }
 
 // Add this new endpoint before the export default app
 app.get('/api/agents/:agentId/chat-history', async (req, res) => {
   try {
     const { agentId } = req.params;
-    const limit = parseInt(req.query.limit as string) || 50;
-    const before = req.query.before ? new Date(req.query.before as string) : new Date();
+    const limit = pageSize(req.query.limit, 50);
+    const cursor = decodeCursor(req.query.cursor);
+    if (req.query.cursor && !cursor) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+    // `before` (a date) is still accepted from clients that predate cursors
+    const position = cursor
+      ? cursorFilter(cursor)
+      : { createdAt: { $lt: req.query.before ? new Date(req.query.before as string) : new Date() } };
 
-    // Fetch comments and AI responses in parallel
+    // Fetch comments and AI responses in parallel with the same cursor, one extra of each to know if there is more
     const [comments, aiResponses] = await Promise.all([
       Comment.find({
         agentId,
-        createdAt: { $lt: before }
+        deletedAt: null,
+        heldForReview: { $ne: true },
+        ...position
       })
-        .sort({ createdAt: -1 })
-        .limit(limit)
+        .sort(cursorSort(cursor))
+        .limit(limit + 1)
         .populate('userProfile', 'pfp handle'), // Populate userProfile with pfp and handle
     
       AIResponse.find({
         agentId,
-        createdAt: { $lt: before }
+        ...position
       })
-        .sort({ createdAt: -1 })
-        .limit(limit)
+        .sort(cursorSort(cursor))
+        .limit(limit + 1)
         .lean()
     ]);
     
+    const reactions = await reactionCounts([...comments.map(c => c.id), ...aiResponses.map(r => r.id)]);
+
     // Transform and combine the results
     const chatHistory: ChatMessage[] = [
       ...comments.map(c => {
@@ -785,34 +1834,44 @@ app.get('/api/agents/:agentId/chat-history', async (req, res) => {
         const avatar = c.userProfile?.pfp || c.avatar; // Fallback to existing avatar if userProfile.pfp is not available
         return {
           id: c._id.toString(),
+          messageId: c.id,
           type: 'comment' as const,
           message: c.message,
           createdAt: c.createdAt,
           sender: c.user,
           handle: c.handle,
-          avatar: avatar // Use pfp from userProfile or the existing avatar
+          avatar: avatar, // Use pfp from userProfile or the existing avatar
+          parentId: c.parentId || undefined,
+          reactions: reactions.get(c.id) || {}
         };
       }),
       ...aiResponses.map(r => ({
         id: r._id.toString(),
+        messageId: r.id,
         type: 'ai_response' as const,
         message: r.text,
         createdAt: r.createdAt,
-        thought: r.thought
+        thought: r.thought,
+        replyToUser: r.replyToUser,
+        replyToMessageId: r.replyToMessageId,
+        replyToHandle: r.replyToHandle,
+        replyToPfp: r.replyToPfp,
+        audioUrl: r.audioUrl,
+        animation: r.animation,
+        isGiftResponse: r.isGiftResponse,
+        reactions: reactions.get(r.id) || {}
       }))
     ];
     
-    // Sort by creation date, newest first
-    chatHistory.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
-    
-    // Trim to requested limit
-    const trimmedHistory = chatHistory.slice(0, limit);
+    // Merge in the order the cursor reads, id breaking ties exactly like the queries do
+    chatHistory.sort(compareByCursorOrder(cursor, message => message.id));
+    const { items, pagination } = buildCursorPage(chatHistory, limit, cursor, message => message.id);
     
     res.json({
-      chatHistory: trimmedHistory,
+      chatHistory: items,
       pagination: {
-        hasMore: chatHistory.length >= limit,
-        oldestMessageDate: trimmedHistory[trimmedHistory.length - 1]?.createdAt
+        ...pagination,
+        oldestMessageDate: items[items.length - 1]?.createdAt
       }
     });
     
@@ -823,11 +1882,205 @@ app.get('/api/agents/:agentId/chat-history', async (req, res) => {
   }
 });
 
+// Stored AI responses for an agent, newest first, optionally filtered by thought and isGiftResponse
+app.get('/api/agents/:agentId/ai-responses', async (req, res) => {
+  try {
+    const { agentId } = req.params;
+    const limit = pageSize(req.query.limit, 20);
+    const cursor = decodeCursor(req.query.cursor);
+    if (req.query.cursor && !cursor) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+    // `before` (a date) is still accepted from clients that predate cursors
+    const position = cursor
+      ? cursorFilter(cursor)
+      : { createdAt: { $lt: req.query.before ? new Date(req.query.before as string) : new Date() } };
+
+    const query: any = {
+      agentId,
+      ...position
+    };
+    if (req.query.thought !== undefined) {
+      query.thought = req.query.thought === 'true' ? true : { $ne: true };
+    }
+    if (req.query.isGiftResponse !== undefined) {
+      query.isGiftResponse = req.query.isGiftResponse === 'true' ? true : { $ne: true };
+    }
+
+    const aiResponses = await AIResponse.find(query)
+      .sort(cursorSort(cursor))
+      .limit(limit + 1)
+      .lean();
+
+    const { items, pagination } = buildCursorPage(aiResponses, limit, cursor);
+    const reactions = await reactionCounts(items.map(response => response.id));
+
+    res.json({
+      aiResponses: items.map(response => ({ ...response, reactions: reactions.get(response.id) || {} })),
+      pagination: {
+        ...pagination,
+        oldestMessageDate: items[items.length - 1]?.createdAt
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching AI responses:', error);
+    res.status(500).json({ error: 'Failed to fetch AI responses' });
+  }
+});
+
+// The agent's recent responses ranked by how many reactions they got
+app.get('/api/agents/:agentId/ai-responses/top-reactions', async (req, res) => {
+  try {
+    const { agentId } = req.params;
+    const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
+    const since = req.query.since
+      ? new Date(req.query.since as string)
+      : new Date(Date.now() - 60 * 60 * 1000); // Last hour by default
+
+    const ranked = await Reaction.aggregate([
+      { $match: { agentId, messageType: 'ai_response', createdAt: { $gte: since } } },
+      { $group: { _id: { messageId: '$messageId', emoji: '$emoji' }, count: { $sum: 1 } } },
+      {
+        $group: {
+          _id: '$_id.messageId',
+          total: { $sum: '$count' },
+          reactions: { $push: { k: '$_id.emoji', v: '$count' } }
+        }
+      },
+      { $sort: { total: -1, _id: 1 } },
+      { $limit: limit }
+    ]);
+
+    const responses = await AIResponse.find(
+      { agentId, id: { $in: ranked.map(entry => entry._id) } },
+      { id: 1, text: 1, createdAt: 1, replyToUser: 1, replyToMessageId: 1 }
+    ).lean();
+    const responsesById = new Map<string, Record<string, any>>(responses.map(response => [response.id, response]));
+
+    const aiResponses = [];
+    for (const entry of ranked) {
+      const response = responsesById.get(entry._id);
+      if (response) {
+        aiResponses.push({
+          ...response,
+          totalReactions: entry.total,
+          reactions: Object.fromEntries(entry.reactions.map(({ k, v }) => [k, v]))
+        });
+      }
+    }
+
+    res.json({ since, aiResponses });
+  } catch (error) {
+    console.error('Error fetching top reactions:', error);
+    res.status(500).json({ error: 'Failed to fetch top reactions' });
+  }
+});
+
+// Full-text search over an agent's chat and its responses, for the owner and moderators.
+// Each hit links to the chat history around it.
+app.get('/api/agents/:agentId/search',
+  web3Auth({ action: 'search:read', allowSkipCheck: true }),
+  requireAgentModerator,
+  async (req, res) => {
+    try {
+      const { agentId } = req.params;
+      const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+      const user = req.query.user as string | undefined;
+      const handle = req.query.handle as string | undefined;
+      const type = (req.query.type as string) || 'all';
+      const limit = pageSize(req.query.limit, 20);
+      const from = req.query.from ? new Date(req.query.from as string) : null;
+      const to = req.query.to ? new Date(req.query.to as string) : null;
+
+      if (!q && !user && !handle) {
+        return res.status(400).json({ error: 'Provide q, user or handle' });
+      }
+      if (!['all', 'comment', 'ai_response'].includes(type)) {
+        return res.status(400).json({ error: 'type must be all, comment or ai_response' });
+      }
+      if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+        return res.status(400).json({ error: 'from and to must be dates' });
+      }
+
+      const filter: any = { agentId };
+      if (q) {
+        filter.$text = { $search: q };
+      }
+      if (from || to) {
+        filter.createdAt = { ...(from && { $gte: from }), ...(to && { $lte: to }) };
+      }
+
+      // Agent responses have no author, so filtering by who said it only leaves comments
+      const searchComments = type !== 'ai_response';
+      const searchResponses = type !== 'comment' && !user && !handle;
+
+      const commentFilter: any = { ...filter };
+      if (req.query.includeRemoved !== 'true') {
+        commentFilter.deletedAt = null;
+        commentFilter.heldForReview = { $ne: true };
+      }
+      if (user) {
+        commentFilter.user = user;
+      } else if (handle) {
+        // The wallet currently holding the handle, or comments posted under that name before
+        const profile = await UserProfile.findOne({ handleNormalized: normalizeHandle(handle) }, { publicKey: 1 });
+        if (profile) {
+          commentFilter.user = profile.publicKey;
+        } else {
+          commentFilter.handle = new RegExp(`^${escapeRegExp(handle)}$`, 'i');
+        }
+      }
+
+      const projection = q ? { score: { $meta: 'textScore' } } : {};
+      const sort: any = q ? { score: { $meta: 'textScore' }, createdAt: -1 } : { createdAt: -1, _id: -1 };
+      const [comments, aiResponses] = await Promise.all([
+        searchComments ? Comment.find(commentFilter, projection).sort(sort).limit(limit).lean() : [],
+        searchResponses ? AIResponse.find(filter, projection).sort(sort).limit(limit).lean() : []
+      ]);
+
+      const terms = searchTerms(q);
+      const historyLink = (createdAt: Date, id: any, direction: 'next' | 'prev') =>
+        `/api/agents/${agentId}/chat-history?cursor=${encodeCursor(createdAt, id, direction)}`;
+      const toHit = (item: any, hitType: 'comment' | 'ai_response', text: string) => ({
+        type: hitType,
+        id: item._id.toString(),
+        messageId: item.id,
+        createdAt: item.createdAt,
+        score: item.score,
+        ...highlightSnippet(text, terms),
+        ...(hitType === 'comment' && {
+          user: item.user,
+          handle: item.handle,
+          deletedAt: item.deletedAt,
+          heldForReview: item.heldForReview
+        }),
+        ...(hitType === 'ai_response' && { thought: item.thought, replyToUser: item.replyToUser }),
+        context: {
+          older: historyLink(item.createdAt, item._id, 'next'),
+          newer: historyLink(item.createdAt, item._id, 'prev')
+        }
+      });
+
+      const results = [
+        ...comments.map(comment => toHit(comment, 'comment', comment.message)),
+        ...aiResponses.map(response => toHit(response, 'ai_response', response.text))
+      ]
+        .sort((a, b) => (b.score || 0) - (a.score || 0) || new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+        .slice(0, limit);
+
+      res.json({ results });
+    } catch (error) {
+      console.error('Error searching chat:', error);
+      res.status(500).json({ error: 'Failed to search chat' });
+    }
+});
+
 // Add a new endpoint to get current viewer count for an agent
 app.get('/api/agents/:agentId/viewers', (req, res) => {
   const { agentId } = req.params;
-  const viewerCount = agentViewers.get(agentId)?.size || 0;
-  res.json({ count: viewerCount });
+  const { viewers, connections } = viewerCounts(agentId);
+  // `count` is kept for older clients and equals `viewers`
+  res.json({ count: viewers, viewers, connections });
 });
 
 
@@ -835,11 +2088,34 @@ app.get('/api/agents/:agentId/viewers', (req, res) => {
 
 // Add periodic ping to keep counts accurate
 setInterval(() => {
-  for (const [agentId, viewers] of agentViewers.entries()) {
-    io.emit(`${agentId}_viewer_count`, { count: viewers.size });
+  for (const agentId of watchedAgentIds()) {
+    emitViewerCount(agentId);
   }
 }, 5000); // Update every 5 seconds
 
+// Sample viewer counts into the open stream sessions (for their peak and average) and into the
+// viewer time series, which covers live agents and any other agent that has viewers
+const VIEWER_SAMPLE_INTERVAL_MS = Math.max(5, parseInt(process.env.VIEWER_SAMPLE_INTERVAL_SECONDS || '') || 15) * 1000;
+
+setInterval(async () => {
+  try {
+    const liveAgentIds = await recordViewerSamples(uniqueViewerCount);
+    const agentIds = new Set([...liveAgentIds, ...watchedAgentIds()]);
+    await recordViewerCounts(new Map([...agentIds].map(agentId => [agentId, uniqueViewerCount(agentId)])));
+  } catch (error) {
+    console.error('Error sampling viewers:', error);
+  }
+}, VIEWER_SAMPLE_INTERVAL_MS);
+
+// Downsample recent viewer samples; the last 15 minutes are redone to pick up late samples
+setInterval(async () => {
+  try {
+    await rollupViewerSamples(new Date(Date.now() - 15 * 60 * 1000));
+  } catch (error) {
+    console.error('Error rolling up viewer samples:', error);
+  }
+}, 5 * 60 * 1000);
+
 // Add this function near the top where other state variables are defined
 function getConnectedPeers(): number {
   return io.engine.clientsCount;
@@ -860,10 +2136,11 @@ setInterval(async () => {
     for (const agent of inactiveAgents) {
       agent.isStreaming = false;
       await agent.save();
+      onStreamStatusChange(true, agent, 'heartbeat_timeout');
 
       // Notify clients about status change
-      io.emit('streaming_status_update', agent);
-      io.emit(`${agent.agentId}_heartbeat`, {
+      io.emit('streaming_status_update', publicStreamStatus(agent));
+      emitToAgent(agent.agentId, 'heartbeat', {
         timestamp: agent.lastHeartbeat,
         isStreaming: false
       });
@@ -874,81 +2151,315 @@ setInterval(async () => {
 }, 15000); // Run every 15 seconds
 
 
-app.get('/api/agents/:agentId/total-likes', async (req, res) => {
+// Past and current live sessions of an agent, newest first
+app.get('/api/agents/:agentId/sessions', async (req, res) => {
   try {
     const { agentId } = req.params;
-    const totalLikes = await Like.countDocuments({ agentId });
-    res.json({ totalLikes });
+    const limit = pageSize(req.query.limit, 20);
+    const cursor = decodeCursor(req.query.cursor);
+    if (req.query.cursor && !cursor) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+
+    const sessions = await StreamSession.find({ agentId, ...cursorFilter(cursor) })
+      .sort(cursorSort(cursor))
+      .limit(limit + 1)
+      .lean();
+
+    const page = buildCursorPage(sessions, limit, cursor);
+    res.json({
+      sessions: await Promise.all(page.items.map(sessionSummary)),
+      pagination: page.pagination
+    });
   } catch (error) {
-    console.error('Error fetching total likes:', error);
-    res.status(500).json({ error: 'Failed to fetch total likes' });
+    console.error('Error fetching stream sessions:', error);
+    res.status(500).json({ error: 'Failed to fetch stream sessions' });
   }
 });
 
-app.get('/api/agents/:agentId/top-likers', async (req, res) => {
+app.get('/api/agents/:agentId/sessions/:sessionId', async (req, res) => {
   try {
-    const { agentId } = req.params;
-    const limit = parseInt(req.query.limit as string) || 5;
-    const timeframe = req.query.timeframe || 'all';
-
-    // Create date filter based on timeframea
-    const dateFilter: any = { 
-      agentId,
-      user: { $exists: true, $ne: null }  // Only count non-anonymous likes
-    };
-    
-    const now = new Date();
-    if (timeframe === '5m') {
-      dateFilter.createdAt = { $gte: new Date(now.getTime() - 5 * 60 * 1000) }; // Last 5 minutes
-    } else if (timeframe === '1m') {
-      dateFilter.createdAt = { $gte: new Date(now.getTime() - 2 * 60 * 1000) }; // Last 2 minutes
-    } else if (timeframe === 'day') {
-      dateFilter.createdAt = { $gte: new Date(now.setDate(now.getDate() - 1)) };
-    } else if (timeframe === 'week') {
-      dateFilter.createdAt = { $gte: new Date(now.setDate(now.getDate() - 7)) };
-    } else if (timeframe === 'month') {
-      dateFilter.createdAt = { $gte: new Date(now.setMonth(now.getMonth() - 1)) };
-    }
-
-    const topLikers = await Like.aggregate([
-      { $match: dateFilter },
-      {
-        $group: {
-          _id: '$user',
-          likeCount: { $sum: 1 },
-          lastLiked: { $max: '$createdAt' }
-        }
-      },
-      { $sort: { likeCount: -1, lastLiked: -1 } },
-      { $limit: limit }
-    ]);
-
-    // Fetch user profiles for the top likers in parallel
-    const likersWithProfiles = await Promise.all(
-      topLikers.map(async (liker) => {
-        const userProfile = await UserProfile.findOne({ publicKey: liker._id });
-        return {
-          publicKey: liker._id,
-          likeCount: liker.likeCount,
-          lastLiked: liker.lastLiked,
-          handle: userProfile?.handle || 'Anonymous',
-          pfp: userProfile?.pfp || null
-        };
-      })
-    );
+    const { agentId, sessionId } = req.params;
+    if (!mongoose.isValidObjectId(sessionId)) {
+      return res.status(400).json({ error: 'Invalid sessionId' });
+    }
 
-    res.json({
-      timeframe,
-      topLikers: likersWithProfiles
-    });
+    const session = await StreamSession.findOne({ _id: sessionId, agentId }).lean();
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
 
+    res.json({ session: await sessionSummary(session) });
   } catch (error) {
-    console.error('Error fetching top likers:', error);
-    res.status(500).json({ error: 'Failed to fetch top likers' });
+    console.error('Error fetching stream session:', error);
+    res.status(500).json({ error: 'Failed to fetch stream session' });
   }
 });
 
-export default app;
+// Viewers, likes, comments and gifts over time, e.g. ?window=24h&resolution=15m or ?from=&to=
+app.get('/api/agents/:agentId/analytics',
+  web3Auth({ action: 'analytics:read', allowSkipCheck: true }),
+  requireAgentOwner,
+  async (req, res) => {
+    try {
+      const { agentId } = req.params;
+      const { window = '24h', resolution } = req.query as Record<string, string | undefined>;
+
+      const to = req.query.to ? new Date(req.query.to as string) : new Date();
+      let from: Date;
+      if (req.query.from) {
+        from = new Date(req.query.from as string);
+      } else if (ANALYTICS_WINDOWS[window]) {
+        from = new Date(to.getTime() - ANALYTICS_WINDOWS[window] * 1000);
+      } else {
+        return res.status(400).json({ error: `window must be one of ${Object.keys(ANALYTICS_WINDOWS).join(', ')}` });
+      }
+      if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+        return res.status(400).json({ error: 'Invalid from or to date' });
+      }
+
+      const resolutionName = resolution || defaultResolution((to.getTime() - from.getTime()) / 1000);
+      const resolutionSeconds = ANALYTICS_RESOLUTIONS[resolutionName];
+      if (!resolutionSeconds) {
+        return res.status(400).json({ error: `resolution must be one of ${Object.keys(ANALYTICS_RESOLUTIONS).join(', ')}` });
+      }
+      const rangeError = validateAnalyticsRange(from, to, resolutionSeconds);
+      if (rangeError) {
+        return res.status(400).json({ error: rangeError });
+      }
+
+      const buckets = await agentAnalytics(agentId, from, to, resolutionSeconds);
+      res.json({ from, to, resolution: resolutionName, buckets });
+    } catch (error) {
+      console.error('Error fetching analytics:', error);
+      res.status(500).json({ error: 'Failed to fetch analytics' });
+    }
+});
+
+app.get('/api/agents/:agentId/total-likes', async (req, res) => {
+  try {
+    const { agentId } = req.params;
+    const status = await StreamingStatus.findOne({ agentId }, { stats: 1 }).lean();
+    res.json({ totalLikes: status?.stats?.likes || 0 });
+  } catch (error) {
+    console.error('Error fetching total likes:', error);
+    res.status(500).json({ error: 'Failed to fetch total likes' });
+  }
+});
+
+app.get('/api/agents/:agentId/top-likers', async (req, res) => {
+  try {
+    const { agentId } = req.params;
+    const limit = pageSize(req.query.limit, 5);
+    const timeframe = (req.query.timeframe as string) || 'all';
+    const timeframeError = validateTimeframe(timeframe);
+    if (timeframeError) {
+      return res.status(400).json({ error: timeframeError });
+    }
+
+    const topLikers = await leaderboard({
+      type: 'likers',
+      agentId,
+      range: resolveTimeframe(timeframe),
+      limit,
+      excludeUsers: [ANONYMOUS_USER]
+    });
+
+    res.json({
+      timeframe,
+      topLikers: topLikers.map(liker => ({
+        publicKey: liker.publicKey,
+        likeCount: liker.likeCount,
+        lastLiked: liker.lastActiveAt,
+        handle: liker.handle || 'Anonymous',
+        pfp: liker.pfp
+      }))
+    });
+
+  } catch (error) {
+    console.error('Error fetching top likers:', error);
+    res.status(500).json({ error: 'Failed to fetch top likers' });
+  }
+});
+
+// Leaderboards of gifters, likers and commenters, per agent or platform-wide
+const LIVE_LEADERBOARD_SIZE = 10;
+
+function parseLeaderboardQuery(
+  params: { type?: any; timeframe?: any; window?: any; tz?: any; limit?: any },
+  agentId: string | null,
+  defaultLimit: number
+): { query?: LeaderboardQuery; error?: string } {
+  const { type, timeframe = 'all', window = 'rolling', tz = 'UTC' } = params;
+  if (!LEADERBOARD_TYPES.includes(type)) {
+    return { error: `type must be one of ${LEADERBOARD_TYPES.join(', ')}` };
+  }
+  const error = validateTimeframe(timeframe, window, tz);
+  if (error) {
+    return { error };
+  }
+  return {
+    query: {
+      type,
+      agentId,
+      range: resolveTimeframe(timeframe, window as TimeframeMode, tz),
+      limit: pageSize(params.limit, defaultLimit),
+      excludeUsers: [ANONYMOUS_USER]
+    }
+  };
+}
+
+async function sendLeaderboard(req: express.Request, res: express.Response, agentId: string | null) {
+  try {
+    const { query, error } = parseLeaderboardQuery({ ...req.query, type: req.params.type }, agentId, 10);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    const { type, range } = query;
+    res.json({
+      type,
+      agentId,
+      timeframe: range.timeframe,
+      window: range.mode,
+      from: range.from,
+      to: range.to,
+      entries: await leaderboard(query)
+    });
+  } catch (error) {
+    console.error('Error fetching leaderboard:', error);
+    res.status(500).json({ error: 'Failed to fetch leaderboard' });
+  }
+}
+
+app.get('/api/leaderboards/:type', (req, res) => sendLeaderboard(req, res, null));
+
+app.get('/api/agents/:agentId/leaderboards/:type', (req, res) => sendLeaderboard(req, res, req.params.agentId));
+
+// Live leaderboards: sockets subscribe to a board and get `leaderboard_update` whenever its
+// ranking changes. Boards are recomputed after new activity of their type, and every minute so
+// rolling windows move on. Platform-wide boards scan every agent's activity, so new activity
+// refreshes them at most every `GLOBAL_LEADERBOARD_MIN_INTERVAL_MS`.
+type LiveLeaderboardParams = { type: LeaderboardType; timeframe: string; window: TimeframeMode; tz: string };
+type LeaderboardSubscription = {
+  agentId: string | null;
+  params: LiveLeaderboardParams;
+  signature: string | null;
+  computedAt: number;
+  /** Sent to new subscribers, so joining a busy board doesn't recompute it */
+  lastUpdate: Awaited<ReturnType<typeof leaderboardUpdate>> | null;
+};
+const leaderboardSubscriptions = new Map<string, LeaderboardSubscription>();
+// `${type}:${agentId}` and `${type}:global` -> when the board last saw new activity
+const dirtyLeaderboards = new Map<string, number>();
+const LEADERBOARD_REFRESH_MS = 60 * 1000;
+const GLOBAL_LEADERBOARD_MIN_INTERVAL_MS = 30 * 1000;
+const MAX_LEADERBOARDS_PER_SOCKET = 5;
+const MAX_LIVE_LEADERBOARDS = Number(process.env.MAX_LIVE_LEADERBOARDS) || 500;
+
+const leaderboardScope = (type: LeaderboardType, agentId?: string | null) => `${type}:${agentId || 'global'}`;
+
+// Rolling windows don't depend on the time zone and `all` on neither the window nor the time
+// zone, so they are dropped and subscribers of the same board share a room
+function liveLeaderboardParams({ type, range }: LeaderboardQuery): LiveLeaderboardParams {
+  const { timeframe, mode, timeZone } = range;
+  if (timeframe === 'all') {
+    return { type, timeframe, window: 'rolling', tz: 'UTC' };
+  }
+  return { type, timeframe, window: mode, tz: mode === 'calendar' ? timeZone : 'UTC' };
+}
+
+const leaderboardRoom = (agentId: string | null, { type, timeframe, window, tz }: LiveLeaderboardParams) =>
+  `leaderboard:${leaderboardScope(type, agentId)}:${timeframe}:${window}:${tz}`;
+
+const isLeaderboardRoom = (room: string) => room.startsWith('leaderboard:');
+
+function markLeaderboardDirty(type: LeaderboardType, agentId?: string | null) {
+  const now = Date.now();
+  dirtyLeaderboards.set(leaderboardScope(type, agentId), now);
+  dirtyLeaderboards.set(leaderboardScope(type), now);
+}
+
+async function leaderboardUpdate(subscription: LeaderboardSubscription) {
+  const { params, agentId } = subscription;
+  // Rolling and calendar windows move with the clock
+  const current = parseLeaderboardQuery(params, agentId, LIVE_LEADERBOARD_SIZE).query;
+  const entries = await leaderboard(current);
+  return {
+    type: current.type,
+    agentId: current.agentId,
+    timeframe: current.range.timeframe,
+    window: current.range.mode,
+    tz: current.range.timeZone,
+    from: current.range.from,
+    to: current.range.to,
+    entries
+  };
+}
+
+const leaderboardSignature = (entries: any[]) =>
+  entries.map(entry => `${entry.publicKey}:${entry.score}`).join(',');
+
+// Whether a board has to be recomputed on this tick
+function leaderboardDue(subscription: LeaderboardSubscription, now: number) {
+  const { agentId, params, computedAt } = subscription;
+  const minInterval = agentId ? 0 : GLOBAL_LEADERBOARD_MIN_INTERVAL_MS;
+  if (now - computedAt < minInterval) {
+    return false;
+  }
+  const changedAt = dirtyLeaderboards.get(leaderboardScope(params.type, agentId)) || 0;
+  if (changedAt >= computedAt) {
+    return true;
+  }
+  // All-time boards only change with new activity
+  return params.timeframe !== 'all' && now - computedAt >= LEADERBOARD_REFRESH_MS;
+}
+
+let refreshingLeaderboards = false;
+
+setInterval(async () => {
+  // A slow run must not overlap with the next tick
+  if (refreshingLeaderboards) {
+    return;
+  }
+  refreshingLeaderboards = true;
+  try {
+    const activeScopes = new Set<string>();
+    for (const [room, subscription] of leaderboardSubscriptions.entries()) {
+      if (!io.sockets.adapter.rooms.get(room)?.size) {
+        leaderboardSubscriptions.delete(room);
+        continue;
+      }
+      activeScopes.add(leaderboardScope(subscription.params.type, subscription.agentId));
+      const now = Date.now();
+      if (!leaderboardDue(subscription, now)) {
+        continue;
+      }
+
+      try {
+        const update = await leaderboardUpdate(subscription);
+        subscription.computedAt = now;
+        subscription.lastUpdate = update;
+        const signature = leaderboardSignature(update.entries);
+        if (signature !== subscription.signature) {
+          subscription.signature = signature;
+          io.to(room).emit('leaderboard_update', update);
+        }
+      } catch (error) {
+        console.error(`Error refreshing leaderboard ${room}:`, error);
+      }
+    }
+    // Activity on boards nobody watches is forgotten
+    for (const scope of dirtyLeaderboards.keys()) {
+      if (!activeScopes.has(scope)) {
+        dirtyLeaderboards.delete(scope);
+      }
+    }
+  } finally {
+    refreshingLeaderboards = false;
+  }
+}, 5000);
+
+export default app;
 
 
 
@@ -1030,7 +2541,13 @@ export default app;
 
 
 
-app.post('/api/user-profile', imageUpload, async (req, res) => {
+app.post('/api/user-profile',
+  restRateLimit('rest:profile'),
+  imageUpload,
+  web3Auth({ action: 'profile:update' }),
+  restWalletRateLimit('rest:profile'),
+  requireSelfOrAdmin((req) => req.body.publicKey),
+  async (req, res) => {
   try {
 
     const { handle, isUploading, publicKey } = req.body;
@@ -1050,10 +2567,10 @@ app.post('/api/user-profile', imageUpload, async (req, res) => {
       });
     }
 
-    // Check if the handle is already taken by another user
-    const existingProfile = await UserProfile.findOne({ handle });
-    if (existingProfile && existingProfile.publicKey !== publicKey) {
-      return res.status(409).json({ error: 'Handle already taken' });
+    // Check the handle is not reserved or already taken by another user
+    const availability = await checkHandleAvailable(handle, publicKey, authorizedPk(res));
+    if (!availability.success) {
+      return res.status(availability.status).json({ error: availability.error });
     }
     const pfpUrl = await uploadImgToBunnyCDN(pfp, `${uuidv4()}.${extension}`, 'userImages');
     if (pfpUrl.status === 'error') {
@@ -1063,7 +2580,7 @@ app.post('/api/user-profile', imageUpload, async (req, res) => {
     const profile = await UserProfile.findOneAndUpdate(
       { publicKey },
       {
-        ...(handle && { handle }),
+        ...(handle && { handle, handleNormalized: normalizeHandle(handle), handleRenameRequired: false }),
         ...(isUploading
           ? pfp && { pfp: pfpUrl.url }
           : pfp && { pfp: pfpUrl.url }) // If isUploading is false, just use the pfp directly
@@ -1073,105 +2590,993 @@ app.post('/api/user-profile', imageUpload, async (req, res) => {
 
     res.status(201).json(profile);
   } catch (error) {
+    if (error?.code === 11000 && error?.keyPattern?.handleNormalized) {
+      return res.status(409).json({ error: 'Handle already taken' });
+    }
     console.error('Error creating or updating user profile:', error);
     res.status(500).json({ error: 'Failed to create or update user profile' });
   }
 });
 
-app.post('/transaction/gift', async (req, res) => {
+app.post('/transaction/gift',
+  restRateLimit('rest:transaction', (req) => req.body.senderAddress),
+  async (req, res) => {
   try {
     const {
       senderAddress,
-      coins,
-      count,
-      mintAddress = 'mdx5dxD754H8uGrz6Wc96tZfFjPqSgBvqUDbKycpump', // AIKO
-      recipientAddress = '5voS9evDjxF589WuEub5i4ti7FWQmZCsAsyD5ucbuRqM', // STREAMER
-      decimals = 6
+      agentId,
+      giftId,
+      quantity = 1,
+      mintAddress = AIKO_MINT_ADDRESS
     } = req.body;
 
-    const sender = new PublicKey(senderAddress);
-    const recipient = new PublicKey(recipientAddress);
-    const mintPubkey = new PublicKey(mintAddress);
+    // The payout wallet always comes from the agent's own configuration
+    const recipientInfo = await resolveGiftRecipient(agentId);
+    if (!recipientInfo.success) {
+      return res.status(recipientInfo.status).json({ error: recipientInfo.error });
+    }
+    if (!recipientInfo.acceptedMints.includes(mintAddress)) {
+      return res.status(400).json({
+        error: 'Token not accepted by this agent',
+        acceptedMints: recipientInfo.acceptedMints
+      });
+    }
+
+    // Prices always come from the catalog, never from the client
+    const pricing = await priceGift(giftId, Number(quantity));
+    if (!pricing.success) {
+      return res.status(400).json({ error: pricing.error });
+    }
+
+    const sender = new PublicKey(senderAddress);
+    const recipient = new PublicKey(recipientInfo.walletAddress);
+    const mintPubkey = new PublicKey(mintAddress);
+
+    const transaction = new Transaction();
+    const { blockhash } = await solanaConnection.getLatestBlockhash('finalized');
+    transaction.recentBlockhash = blockhash;
+    transaction.feePayer = sender;
+
+    const accounts = await solanaConnection.getParsedTokenAccountsByOwner(sender, {
+      programId: TOKEN_PROGRAM_ID
+    });
+
+    const sourceAccount = accounts.value.find(
+      account => account.account.data.parsed.info.mint === mintAddress
+    );
+
+    if (!sourceAccount) {
+      throw new Error('Source token account not found');
+    }
+
+    const destinationAta = await getAssociatedTokenAddress(
+      mintPubkey,
+      recipient,
+      false,
+      TOKEN_PROGRAM_ID
+    );
+
+    try {
+      await solanaConnection.getAccountInfo(destinationAta);
+    } catch (e) {
+      transaction.add(
+        createAssociatedTokenAccountInstruction(
+          sender,
+          destinationAta,
+          recipient,
+          mintPubkey,
+          TOKEN_PROGRAM_ID
+        )
+      );
+    }
+
+    // Decimals come from the mint itself, never from the client
+    const decimals = await mintDecimals(mintPubkey);
+    const tokensTotal = pricing.coinsTotal * recipientInfo.tokensPerCoin[mintAddress];
+    const totalAmount = BigInt(Math.floor(tokensTotal * Math.pow(10, decimals)));
+
+    transaction.add(
+      createTransferInstruction(
+        sourceAccount.pubkey,
+        destinationAta,
+        sender,
+        totalAmount,
+        [],
+        TOKEN_PROGRAM_ID
+      )
+    );
+
+    const serializedTransaction = transaction.serialize({
+      requireAllSignatures: false,
+      verifySignatures: false
+    }).toString('base64');
+
+    res.json({
+      transaction: serializedTransaction,
+      agentId,
+      recipientAddress: recipientInfo.walletAddress,
+      mintAddress,
+      giftId: pricing.gift._id,
+      giftName: pricing.gift.name,
+      quantity: Number(quantity),
+      coinsTotal: pricing.coinsTotal,
+      tokensTotal,
+      message: 'Transaction created successfully'
+    });
+
+  } catch (error) {
+    console.error('Error creating transaction:', error);
+    res.status(400).json({ error: 'Failed to create transaction' });
+  }
+});
+
+
+
+
+
+
+// Per-agent API keys, managed by the agent owner
+function validateApiKeyScopes(scopes: any): string | null {
+  if (scopes === undefined) return null;
+  if (!Array.isArray(scopes) || scopes.length === 0) return 'scopes must be a non-empty array';
+  const invalid = scopes.filter(scope => !AGENT_API_KEY_SCOPES.includes(scope));
+  if (invalid.length) return `Unknown scopes: ${invalid.join(', ')}`;
+  return null;
+}
+
+app.get('/api/agents/:agentId/api-keys',
+  web3Auth({ action: 'apikey:read', allowSkipCheck: true }),
+  requireAgentOwner,
+  async (req, res) => {
+    try {
+      const { agentId } = req.params;
+      const apiKeys = await AgentApiKey.find({ agentId, revokedAt: null }).sort({ createdAt: -1 });
+      res.json({ apiKeys });
+    } catch (error) {
+      console.error('Error fetching API keys:', error);
+      res.status(500).json({ error: 'Failed to fetch API keys' });
+    }
+});
+
+app.post('/api/agents/:agentId/api-keys',
+  web3Auth({ action: 'apikey:create' }),
+  requireAgentOwner,
+  async (req, res) => {
+    try {
+      const { agentId } = req.params;
+      const { name, scopes } = req.body;
+
+      const scopeError = validateApiKeyScopes(scopes);
+      if (scopeError) {
+        return res.status(400).json({ error: scopeError });
+      }
+
+      const { key, keyHash, prefix } = generateAgentApiKey();
+      const apiKey = await AgentApiKey.create({
+        agentId,
+        name,
+        keyHash,
+        prefix,
+        ...(scopes && { scopes }),
+        createdBy: authorizedPk(res)
+      });
+
+      // The plaintext key is only ever returned here
+      res.status(201).json({ apiKey, key });
+    } catch (error) {
+      console.error('Error creating API key:', error);
+      res.status(500).json({ error: 'Failed to create API key' });
+    }
+});
+
+// Revokes the key and issues a replacement with the same name and scopes
+app.post('/api/agents/:agentId/api-keys/:keyId/rotate',
+  web3Auth({ action: 'apikey:rotate' }),
+  requireAgentOwner,
+  async (req, res) => {
+    try {
+      const { agentId, keyId } = req.params;
+      if (!mongoose.isValidObjectId(keyId)) {
+        return res.status(400).json({ error: 'Invalid keyId' });
+      }
+
+      const oldKey = await AgentApiKey.findOneAndUpdate(
+        { _id: keyId, agentId, revokedAt: null },
+        { $set: { revokedAt: new Date() } },
+        { new: true }
+      );
+      if (!oldKey) {
+        return res.status(404).json({ error: 'API key not found' });
+      }
+
+      const { key, keyHash, prefix } = generateAgentApiKey();
+      const apiKey = await AgentApiKey.create({
+        agentId,
+        name: oldKey.name,
+        keyHash,
+        prefix,
+        scopes: oldKey.scopes,
+        createdBy: authorizedPk(res)
+      });
+
+      res.status(201).json({ apiKey, key, revokedKeyId: oldKey._id });
+    } catch (error) {
+      console.error('Error rotating API key:', error);
+      res.status(500).json({ error: 'Failed to rotate API key' });
+    }
+});
+
+app.delete('/api/agents/:agentId/api-keys/:keyId',
+  web3Auth({ action: 'apikey:revoke' }),
+  requireAgentOwner,
+  async (req, res) => {
+    try {
+      const { agentId, keyId } = req.params;
+      if (!mongoose.isValidObjectId(keyId)) {
+        return res.status(400).json({ error: 'Invalid keyId' });
+      }
+
+      const revokedKey = await AgentApiKey.findOneAndUpdate(
+        { _id: keyId, agentId, revokedAt: null },
+        { $set: { revokedAt: new Date() } },
+        { new: true }
+      );
+      if (!revokedKey) {
+        return res.status(404).json({ error: 'API key not found' });
+      }
+
+      res.json({ success: true, message: 'API key revoked' });
+    } catch (error) {
+      console.error('Error revoking API key:', error);
+      res.status(500).json({ error: 'Failed to revoke API key' });
+    }
+});
+
+// Outbound webhooks, see utils/webhooks.ts for the delivery format
+function validateWebhookEvents(events: any): string | null {
+  if (!Array.isArray(events) || events.length === 0) return 'events must be a non-empty array';
+  const invalid = events.filter(event => !WEBHOOK_EVENTS.includes(event));
+  if (invalid.length) return `Unknown events: ${invalid.join(', ')}`;
+  return null;
+}
+
+const MAX_WEBHOOKS_PER_AGENT = 10;
+
+app.get('/api/agents/:agentId/webhooks',
+  web3Auth({ action: 'webhook:read', allowSkipCheck: true }),
+  requireAgentOwner,
+  async (req, res) => {
+    try {
+      const { agentId } = req.params;
+      const [webhooks, status] = await Promise.all([
+        AgentWebhook.find({ agentId }).sort({ createdAt: -1 }),
+        StreamingStatus.findOne({ agentId }, { webhookSecret: 1 })
+      ]);
+      res.json({ webhooks, events: WEBHOOK_EVENTS, hasSecret: !!status?.webhookSecret });
+    } catch (error) {
+      console.error('Error fetching webhooks:', error);
+      res.status(500).json({ error: 'Failed to fetch webhooks' });
+    }
+});
+
+app.post('/api/agents/:agentId/webhooks',
+  web3Auth({ action: 'webhook:create' }),
+  requireAgentOwner,
+  async (req, res) => {
+    try {
+      const { agentId } = req.params;
+      const { url, events } = req.body;
+
+      const error = validateWebhookUrl(url) || validateWebhookEvents(events);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+      if (await AgentWebhook.countDocuments({ agentId }) >= MAX_WEBHOOKS_PER_AGENT) {
+        return res.status(400).json({ error: `An agent can have at most ${MAX_WEBHOOKS_PER_AGENT} webhooks` });
+      }
+
+      // The signing secret is shared by all of the agent's webhooks and created with the first one
+      const secret = generateWebhookSecret();
+      const secretResult = await StreamingStatus.updateOne(
+        { agentId, webhookSecret: { $exists: false } },
+        { $set: { webhookSecret: secret } }
+      );
+      if (!secretResult.modifiedCount && !await StreamingStatus.exists({ agentId })) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
+
+      const webhook = await AgentWebhook.create({
+        agentId,
+        url,
+        events: [...new Set(events)],
+        createdBy: authorizedPk(res)
+      });
+
+      // A new secret is only ever returned here or when rotating it
+      res.status(201).json({ webhook, ...(secretResult.modifiedCount && { secret }) });
+    } catch (error) {
+      console.error('Error creating webhook:', error);
+      res.status(500).json({ error: 'Failed to create webhook' });
+    }
+});
+
+app.post('/api/agents/:agentId/webhooks/secret/rotate',
+  web3Auth({ action: 'webhook:rotate' }),
+  requireAgentOwner,
+  async (req, res) => {
+    try {
+      const { agentId } = req.params;
+      const secret = generateWebhookSecret();
+      const result = await StreamingStatus.updateOne({ agentId }, { $set: { webhookSecret: secret } });
+      if (!result.matchedCount) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
+      // Retries still pending are signed with the new secret
+      res.status(201).json({ secret });
+    } catch (error) {
+      console.error('Error rotating webhook secret:', error);
+      res.status(500).json({ error: 'Failed to rotate webhook secret' });
+    }
+});
+
+app.get('/api/agents/:agentId/webhooks/deliveries',
+  web3Auth({ action: 'webhook:read', allowSkipCheck: true }),
+  requireAgentOwner,
+  async (req, res) => {
+    try {
+      const { agentId } = req.params;
+      const { status, webhookId, event } = req.query;
+      const limit = pageSize(req.query.limit, 50);
+      const cursor = decodeCursor(req.query.cursor);
+      if (req.query.cursor && !cursor) {
+        return res.status(400).json({ error: 'Invalid cursor' });
+      }
+      if (webhookId && !mongoose.isValidObjectId(webhookId)) {
+        return res.status(400).json({ error: 'Invalid webhookId' });
+      }
+
+      const query: Record<string, any> = {
+        agentId,
+        ...(typeof status === 'string' && { status }),
+        ...(typeof event === 'string' && { event }),
+        ...(webhookId && { webhookId }),
+        ...cursorFilter(cursor)
+      };
+      const deliveries = await WebhookDelivery.find(query)
+        .sort(cursorSort(cursor))
+        .limit(limit + 1)
+        .lean();
+
+      const page = buildCursorPage(deliveries, limit, cursor);
+      res.json({ deliveries: page.items, pagination: page.pagination });
+    } catch (error) {
+      console.error('Error fetching webhook deliveries:', error);
+      res.status(500).json({ error: 'Failed to fetch webhook deliveries' });
+    }
+});
+
+// Sends a delivery again from its first attempt, e.g. after fixing the receiver
+app.post('/api/agents/:agentId/webhooks/deliveries/:deliveryId/replay',
+  web3Auth({ action: 'webhook:replay' }),
+  requireAgentOwner,
+  async (req, res) => {
+    try {
+      const { agentId, deliveryId } = req.params;
+      if (!mongoose.isValidObjectId(deliveryId)) {
+        return res.status(400).json({ error: 'Invalid deliveryId' });
+      }
+
+      const delivery = await replayWebhookDelivery(agentId, deliveryId);
+      if (!delivery) {
+        const exists = await WebhookDelivery.exists({ _id: deliveryId, agentId });
+        return exists
+          ? res.status(409).json({ error: 'Delivery is already pending' })
+          : res.status(404).json({ error: 'Delivery not found' });
+      }
+
+      res.json({ success: true, delivery });
+    } catch (error) {
+      console.error('Error replaying webhook delivery:', error);
+      res.status(500).json({ error: 'Failed to replay webhook delivery' });
+    }
+});
+
+app.put('/api/agents/:agentId/webhooks/:webhookId',
+  web3Auth({ action: 'webhook:update' }),
+  requireAgentOwner,
+  async (req, res) => {
+    try {
+      const { agentId, webhookId } = req.params;
+      const { url, events, active } = req.body;
+      if (!mongoose.isValidObjectId(webhookId)) {
+        return res.status(400).json({ error: 'Invalid webhookId' });
+      }
+
+      const error = (url !== undefined && validateWebhookUrl(url))
+        || (events !== undefined && validateWebhookEvents(events))
+        || (active !== undefined && typeof active !== 'boolean' && 'active must be a boolean');
+      if (error) {
+        return res.status(400).json({ error });
+      }
+
+      const webhook = await AgentWebhook.findOneAndUpdate(
+        { _id: webhookId, agentId },
+        {
+          $set: {
+            ...(url !== undefined && { url }),
+            ...(events !== undefined && { events: [...new Set(events)] }),
+            ...(active !== undefined && { active }),
+            updatedAt: new Date()
+          }
+        },
+        { new: true }
+      );
+      if (!webhook) {
+        return res.status(404).json({ error: 'Webhook not found' });
+      }
+
+      res.json({ success: true, webhook });
+    } catch (error) {
+      console.error('Error updating webhook:', error);
+      res.status(500).json({ error: 'Failed to update webhook' });
+    }
+});
+
+app.delete('/api/agents/:agentId/webhooks/:webhookId',
+  web3Auth({ action: 'webhook:delete' }),
+  requireAgentOwner,
+  async (req, res) => {
+    try {
+      const { agentId, webhookId } = req.params;
+      if (!mongoose.isValidObjectId(webhookId)) {
+        return res.status(400).json({ error: 'Invalid webhookId' });
+      }
+
+      const webhook = await AgentWebhook.findOneAndDelete({ _id: webhookId, agentId });
+      if (!webhook) {
+        return res.status(404).json({ error: 'Webhook not found' });
+      }
+
+      res.json({ success: true, message: 'Webhook deleted' });
+    } catch (error) {
+      console.error('Error deleting webhook:', error);
+      res.status(500).json({ error: 'Failed to delete webhook' });
+    }
+});
+
+// Sends a signed `ping` event so owners can test their receiver
+app.post('/api/agents/:agentId/webhooks/:webhookId/ping',
+  web3Auth({ action: 'webhook:ping' }),
+  requireAgentOwner,
+  async (req, res) => {
+    try {
+      const { agentId, webhookId } = req.params;
+      if (!mongoose.isValidObjectId(webhookId)) {
+        return res.status(400).json({ error: 'Invalid webhookId' });
+      }
+
+      const webhook = await AgentWebhook.findOne({ _id: webhookId, agentId });
+      if (!webhook) {
+        return res.status(404).json({ error: 'Webhook not found' });
+      }
+
+      const delivery = await pingWebhook(webhook);
+      res.status(202).json({ success: true, delivery });
+    } catch (error) {
+      console.error('Error pinging webhook:', error);
+      res.status(500).json({ error: 'Failed to ping webhook' });
+    }
+});
+
+// Chat moderation, for the agent owner and delegated moderators
+// Soft-deletes comments and tells viewers to hide them
+async function removeComments(agentId: string, filter: any, moderator: string) {
+  const comments = await Comment.find({ agentId, deletedAt: null, ...filter }, { id: 1, heldForReview: 1 });
+  if (!comments.length) {
+    return [];
+  }
+
+  // One conditional update per comment, so a comment removed concurrently by another
+  // moderator is announced and uncounted only once
+  const removed: { id: string; heldForReview?: boolean }[] = [];
+  const deletedAt = new Date();
+  for (const comment of comments) {
+    const previous = await Comment.findOneAndUpdate(
+      { agentId, id: comment.id, deletedAt: null },
+      { $set: { deletedAt, deletedBy: moderator } },
+      { projection: { id: 1, heldForReview: 1 } }
+    );
+    if (previous) {
+      removed.push(previous);
+    }
+  }
+  if (!removed.length) {
+    return [];
+  }
+
+  const commentIds = removed.map(comment => comment.id);
+  for (const commentId of commentIds) {
+    emitToAgent(agentId, 'comment_removed', { agentId, commentId });
+  }
+  markLeaderboardDirty('commenters', agentId);
+  // Held comments were never counted
+  bumpStreamStats(agentId, { comments: -removed.filter(comment => !comment.heldForReview).length });
+  return commentIds;
+}
+
+app.delete('/api/agents/:agentId/comments/:commentId',
+  web3Auth({ action: 'comment:delete' }),
+  requireAgentModerator,
+  async (req, res) => {
+    try {
+      const { agentId, commentId } = req.params;
+      const removed = await removeComments(agentId, { id: commentId }, authorizedPk(res));
+      if (!removed.length) {
+        return res.status(404).json({ error: 'Comment not found' });
+      }
+      res.json({ success: true, removedCommentIds: removed });
+    } catch (error) {
+      console.error('Error removing comment:', error);
+      res.status(500).json({ error: 'Failed to remove comment' });
+    }
+});
+
+// Comments held by the word filter in review mode. Approving broadcasts them,
+// rejecting is the regular comment removal above.
+app.get('/api/agents/:agentId/moderation/held-comments',
+  web3Auth({ action: 'moderation:read', allowSkipCheck: true }),
+  requireAgentModerator,
+  async (req, res) => {
+    try {
+      const { agentId } = req.params;
+      const comments = await Comment.find({ agentId, heldForReview: true, deletedAt: null })
+        .sort({ createdAt: 1 })
+        .limit(100);
+      res.json({ comments });
+    } catch (error) {
+      console.error('Error fetching held comments:', error);
+      res.status(500).json({ error: 'Failed to fetch held comments' });
+    }
+});
+
+app.post('/api/agents/:agentId/moderation/held-comments/:commentId/approve',
+  web3Auth({ action: 'comment:approve' }),
+  requireAgentModerator,
+  async (req, res) => {
+    try {
+      const { agentId, commentId } = req.params;
+      const newComment = await Comment.findOneAndUpdate(
+        { agentId, id: commentId, heldForReview: true, deletedAt: null },
+        { $set: { heldForReview: false } },
+        { new: true }
+      );
+      if (!newComment) {
+        return res.status(404).json({ error: 'Held comment not found' });
+      }
+
+      commentCount++;
+      if (LEGACY_AGENT_EVENTS) {
+        io.emit('comment_received', { newComment, commentCount });
+      }
+      emitToAgent(agentId, 'comment_received', { newComment, commentCount });
+      queueForAgents([agentId], 'comment', newComment.id, newComment.createdAt);
+      dispatchWebhookEvent(agentId, 'comment.received', { comment: commentWebhookData(newComment) });
+      markLeaderboardDirty('commenters', agentId);
+      bumpStreamStats(agentId, { comments: 1 });
+
+      res.json({ success: true, comment: newComment });
+    } catch (error) {
+      console.error('Error approving comment:', error);
+      res.status(500).json({ error: 'Failed to approve comment' });
+    }
+});
+
+app.get('/api/agents/:agentId/moderation/sanctions',
+  web3Auth({ action: 'moderation:read', allowSkipCheck: true }),
+  requireAgentModerator,
+  async (req, res) => {
+    try {
+      const { agentId } = req.params;
+      const sanctions = await ChatSanction.find(activeSanctionQuery(agentId)).sort({ createdAt: -1 });
+      res.json({ sanctions });
+    } catch (error) {
+      console.error('Error fetching sanctions:', error);
+      res.status(500).json({ error: 'Failed to fetch sanctions' });
+    }
+});
+
+// Body: { publicKey, type: 'ban' | 'timeout', durationSeconds?, reason?, global?, removeComments? }
+// Timeouts need durationSeconds, bans are permanent unless one is given. Global sanctions are admin only.
+app.post('/api/agents/:agentId/moderation/sanctions',
+  web3Auth({ action: 'moderation:sanction' }),
+  requireAgentModerator,
+  async (req, res) => {
+    try {
+      const { agentId } = req.params;
+      const { publicKey, type, durationSeconds, reason, global: isGlobal, removeComments: shouldRemoveComments } = req.body;
+      const moderator = authorizedPk(res);
+
+      if (!publicKey || typeof publicKey !== 'string') {
+        return res.status(400).json({ error: 'publicKey is required' });
+      }
+      if (!['ban', 'timeout'].includes(type)) {
+        return res.status(400).json({ error: "type must be 'ban' or 'timeout'" });
+      }
+      if (durationSeconds !== undefined && (typeof durationSeconds !== 'number' || durationSeconds <= 0)) {
+        return res.status(400).json({ error: 'durationSeconds must be a positive number' });
+      }
+      if (type === 'timeout' && durationSeconds === undefined) {
+        return res.status(400).json({ error: 'durationSeconds is required for timeouts' });
+      }
+      if (isGlobal && !isAdminPk(moderator)) {
+        return res.status(403).json({ error: 'Only admins can issue global sanctions' });
+      }
+      if (await verifyAgentOwner(publicKey, agentId)) {
+        return res.status(400).json({ error: 'Cannot sanction the agent owner' });
+      }
+      // Delegated moderators can't ban or time out each other
+      if (await StreamingStatus.exists({ agentId, moderators: publicKey }) && !(await verifyAgentOwner(moderator, agentId))) {
+        return res.status(403).json({ error: 'Only the owner can sanction a moderator' });
+      }
+
+      const sanction = await ChatSanction.create({
+        publicKey,
+        agentId: isGlobal ? null : agentId,
+        type,
+        reason,
+        createdBy: moderator,
+        expiresAt: durationSeconds ? new Date(Date.now() + durationSeconds * 1000) : null
+      });
+
+      const removedCommentIds = shouldRemoveComments
+        ? await removeComments(agentId, { user: publicKey }, moderator)
+        : [];
+
+      res.status(201).json({ sanction, removedCommentIds });
+    } catch (error) {
+      console.error('Error creating sanction:', error);
+      res.status(500).json({ error: 'Failed to create sanction' });
+    }
+});
+
+app.delete('/api/agents/:agentId/moderation/sanctions/:sanctionId',
+  web3Auth({ action: 'moderation:lift' }),
+  requireAgentModerator,
+  async (req, res) => {
+    try {
+      const { agentId, sanctionId } = req.params;
+      if (!mongoose.isValidObjectId(sanctionId)) {
+        return res.status(400).json({ error: 'Invalid sanctionId' });
+      }
+
+      const moderator = authorizedPk(res);
+      // Global sanctions can only be lifted by admins
+      const scope = isAdminPk(moderator) ? { $or: [{ agentId }, { agentId: null }] } : { agentId };
+      const sanction = await ChatSanction.findOneAndUpdate(
+        { _id: sanctionId, liftedAt: null, ...scope },
+        { $set: { liftedAt: new Date(), liftedBy: moderator } },
+        { new: true }
+      );
+      if (!sanction) {
+        return res.status(404).json({ error: 'Sanction not found' });
+      }
+
+      res.json({ success: true, sanction });
+    } catch (error) {
+      console.error('Error lifting sanction:', error);
+      res.status(500).json({ error: 'Failed to lift sanction' });
+    }
+});
+
+// Delegated moderators, managed by the agent owner
+app.get('/api/agents/:agentId/moderators', async (req, res) => {
+  try {
+    const { agentId } = req.params;
+    const status = await StreamingStatus.findOne({ agentId }, { moderators: 1 });
+    if (!status) {
+      return res.status(404).json({ error: 'Agent not found' });
+    }
+    res.json({ moderators: status.moderators || [] });
+  } catch (error) {
+    console.error('Error fetching moderators:', error);
+    res.status(500).json({ error: 'Failed to fetch moderators' });
+  }
+});
+
+app.post('/api/agents/:agentId/moderators',
+  web3Auth({ action: 'moderator:add' }),
+  requireAgentOwner,
+  async (req, res) => {
+    try {
+      const { agentId } = req.params;
+      const { publicKey } = req.body;
+      if (!publicKey || typeof publicKey !== 'string') {
+        return res.status(400).json({ error: 'publicKey is required' });
+      }
+
+      const status = await StreamingStatus.findOneAndUpdate(
+        { agentId },
+        { $addToSet: { moderators: publicKey } },
+        { new: true }
+      );
+      if (!status) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
+      res.json({ success: true, moderators: status.moderators });
+    } catch (error) {
+      console.error('Error adding moderator:', error);
+      res.status(500).json({ error: 'Failed to add moderator' });
+    }
+});
+
+app.delete('/api/agents/:agentId/moderators/:publicKey',
+  web3Auth({ action: 'moderator:remove' }),
+  requireAgentOwner,
+  async (req, res) => {
+    try {
+      const { agentId, publicKey } = req.params;
+      const status = await StreamingStatus.findOneAndUpdate(
+        { agentId },
+        { $pull: { moderators: publicKey } },
+        { new: true }
+      );
+      if (!status) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
+      res.json({ success: true, moderators: status.moderators });
+    } catch (error) {
+      console.error('Error removing moderator:', error);
+      res.status(500).json({ error: 'Failed to remove moderator' });
+    }
+});
+
+// Per-agent overrides of the viewer action rate limits
+app.get('/api/agents/:agentId/rate-limits', async (req, res) => {
+  try {
+    const { agentId } = req.params;
+    const overrides = await getAgentRateLimits(agentId);
+    const effective = Object.fromEntries(
+      Object.keys(DEFAULT_RATE_LIMITS).map(action => [action, resolveRateLimitRules(action, overrides)])
+    );
+    res.json({ overrides: overrides || {}, effective });
+  } catch (error) {
+    console.error('Error fetching rate limits:', error);
+    res.status(500).json({ error: 'Failed to fetch rate limits' });
+  }
+});
+
+app.put('/api/agents/:agentId/rate-limits',
+  web3Auth({ action: 'ratelimit:update' }),
+  requireAgentOwner,
+  async (req, res) => {
+    try {
+      const { agentId } = req.params;
+      const { rateLimits } = req.body;
+
+      if (!rateLimits || typeof rateLimits !== 'object' || Array.isArray(rateLimits)) {
+        return res.status(400).json({ error: 'rateLimits must be an object' });
+      }
+      for (const [action, rules] of Object.entries(rateLimits)) {
+        if (!DEFAULT_RATE_LIMITS[action]) {
+          return res.status(400).json({ error: `Unknown action: ${action}` });
+        }
+        const globalRules = resolveRateLimitRules(action);
+        for (const [scope, rule] of Object.entries(rules as object)) {
+          if (!['wallet', 'socket', 'ip'].includes(scope) || !isValidRateLimitRule(rule)) {
+            return res.status(400).json({
+              error: `Invalid rule for ${action}.${scope}, expected { capacity, refillPerSecond } with positive numbers`
+            });
+          }
+          // Rules the action doesn't have, or shared socket and IP rules looser than the global
+          // ones, would never take effect
+          const globalRule = globalRules[scope];
+          if (!globalRule) {
+            return res.status(400).json({ error: `${action} is not limited per ${scope}` });
+          }
+          if (scope !== 'wallet' && (rule.capacity > globalRule.capacity || rule.refillPerSecond > globalRule.refillPerSecond)) {
+            return res.status(400).json({
+              error: `${action}.${scope} is shared by all agents and can only be lowered, to at most { capacity: ${globalRule.capacity}, refillPerSecond: ${globalRule.refillPerSecond} }`
+            });
+          }
+        }
+      }
+
+      const status = await StreamingStatus.findOneAndUpdate(
+        { agentId },
+        { $set: { rateLimits } },
+        { new: true }
+      );
+      if (!status) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
+      agentSettingsCache.delete(agentId);
+
+      res.json({ success: true, rateLimits: status.rateLimits });
+    } catch (error) {
+      console.error('Error updating rate limits:', error);
+      res.status(500).json({ error: 'Failed to update rate limits' });
+    }
+});
+
+// Weights of the comment priority scorers for an agent
+app.get('/api/agents/:agentId/comment-scoring', async (req, res) => {
+  try {
+    const { agentId } = req.params;
+    const { scoringWeights } = await getAgentSettings(agentId);
+    res.json({
+      scorers: listCommentScorers(),
+      overrides: scoringWeights || {},
+      weights: resolveScoringWeights(scoringWeights)
+    });
+  } catch (error) {
+    console.error('Error fetching comment scoring:', error);
+    res.status(500).json({ error: 'Failed to fetch comment scoring' });
+  }
+});
+
+app.put('/api/agents/:agentId/comment-scoring',
+  web3Auth({ action: 'scoring:update' }),
+  requireAgentOwner,
+  async (req, res) => {
+    try {
+      const { agentId } = req.params;
+      const { weights } = req.body;
 
-    const transaction = new Transaction();
-    const { blockhash } = await solanaConnection.getLatestBlockhash('finalized');
-    transaction.recentBlockhash = blockhash;
-    transaction.feePayer = sender;
+      const error = validateScoringWeights(weights);
+      if (error) {
+        return res.status(400).json({ error });
+      }
 
-    const accounts = await solanaConnection.getParsedTokenAccountsByOwner(sender, {
-      programId: TOKEN_PROGRAM_ID
-    });
+      const status = await StreamingStatus.findOneAndUpdate(
+        { agentId },
+        { $set: { scoringWeights: weights } },
+        { new: true }
+      );
+      if (!status) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
+      agentSettingsCache.delete(agentId);
 
-    const sourceAccount = accounts.value.find(
-      account => account.account.data.parsed.info.mint === mintAddress
-    );
+      res.json({ success: true, weights: resolveScoringWeights(status.scoringWeights) });
+    } catch (error) {
+      console.error('Error updating comment scoring:', error);
+      res.status(500).json({ error: 'Failed to update comment scoring' });
+    }
+});
 
-    if (!sourceAccount) {
-      throw new Error('Source token account not found');
+// Tokens an agent accepts gifts in, with what one catalog coin costs in each
+app.get('/api/agents/:agentId/accepted-mints', async (req, res) => {
+  try {
+    const { agentId } = req.params;
+    const status = await StreamingStatus.findOne({ agentId }, { acceptedMints: 1, mintRates: 1 });
+    if (!status) {
+      return res.status(404).json({ error: 'Agent not found' });
     }
+    const rates = acceptedMintRates(status);
+    res.json({ mints: Object.entries(rates).map(([mint, tokensPerCoin]) => ({ mint, tokensPerCoin })) });
+  } catch (error) {
+    console.error('Error fetching accepted mints:', error);
+    res.status(500).json({ error: 'Failed to fetch accepted mints' });
+  }
+});
 
-    const destinationAta = await getAssociatedTokenAddress(
-      mintPubkey,
-      recipient,
-      false,
-      TOKEN_PROGRAM_ID
-    );
+const MAX_ACCEPTED_MINTS = 10;
 
+app.put('/api/agents/:agentId/accepted-mints',
+  web3Auth({ action: 'mints:update' }),
+  requireAgentOwner,
+  async (req, res) => {
     try {
-      await solanaConnection.getAccountInfo(destinationAta);
-    } catch (e) {
-      transaction.add(
-        createAssociatedTokenAccountInstruction(
-          sender,
-          destinationAta,
-          recipient,
-          mintPubkey,
-          TOKEN_PROGRAM_ID
-        )
-      );
-    }
+      const { agentId } = req.params;
+      const { mints } = req.body;
 
-    const totalAmount = BigInt(Math.floor(coins * count * Math.pow(10, decimals)));
+      if (!Array.isArray(mints) || mints.length > MAX_ACCEPTED_MINTS) {
+        return res.status(400).json({ error: `mints must be an array of at most ${MAX_ACCEPTED_MINTS} entries` });
+      }
+      const rates: Record<string, number> = {};
+      for (const entry of mints) {
+        const { mint, tokensPerCoin } = entry || {};
+        if (typeof tokensPerCoin !== 'number' || !Number.isFinite(tokensPerCoin) || tokensPerCoin <= 0) {
+          return res.status(400).json({ error: 'Each entry needs a mint and a positive tokensPerCoin' });
+        }
+        try {
+          // Also makes sure the address is an SPL token mint
+          await mintDecimals(new PublicKey(mint));
+        } catch (error) {
+          return res.status(400).json({ error: `${mint} is not a token mint` });
+        }
+        rates[mint] = tokensPerCoin;
+      }
 
-    transaction.add(
-      createTransferInstruction(
-        sourceAccount.pubkey,
-        destinationAta,
-        sender,
-        totalAmount,
-        [],
-        TOKEN_PROGRAM_ID
-      )
-    );
+      const status = await StreamingStatus.findOneAndUpdate(
+        { agentId },
+        { $set: { acceptedMints: Object.keys(rates), mintRates: rates } },
+        { new: true }
+      );
+      if (!status) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
 
-    const serializedTransaction = transaction.serialize({
-      requireAllSignatures: false,
-      verifySignatures: false
-    }).toString('base64');
+      const accepted = acceptedMintRates(status);
+      res.json({ success: true, mints: Object.entries(accepted).map(([mint, tokensPerCoin]) => ({ mint, tokensPerCoin })) });
+    } catch (error) {
+      console.error('Error updating accepted mints:', error);
+      res.status(500).json({ error: 'Failed to update accepted mints' });
+    }
+});
 
+// Per-agent chat word filter: mode plus allow/deny lists on top of the global word lists
+app.get('/api/agents/:agentId/word-filter', async (req, res) => {
+  try {
+    const { agentId } = req.params;
+    const { wordFilter } = await getAgentSettings(agentId);
     res.json({
-      transaction: serializedTransaction,
-      message: 'Transaction created successfully'
+      wordFilter: {
+        mode: wordFilter?.mode || 'mask',
+        allow: wordFilter?.allow || [],
+        deny: wordFilter?.deny || []
+      }
     });
-
   } catch (error) {
-    console.error('Error creating transaction:', error);
-    res.status(400).json({ error: 'Failed to create transaction' });
+    console.error('Error fetching word filter:', error);
+    res.status(500).json({ error: 'Failed to fetch word filter' });
   }
 });
 
+const MAX_WORD_FILTER_ENTRIES = 500;
 
+function normalizeWordList(words: any): string[] | null {
+  if (words === undefined) {
+    return [];
+  }
+  if (!Array.isArray(words) || words.length > MAX_WORD_FILTER_ENTRIES) {
+    return null;
+  }
+  if (words.some(word => typeof word !== 'string' || !word.trim() || word.length > 50)) {
+    return null;
+  }
+  return [...new Set(words.map(word => word.trim().toLowerCase()))];
+}
 
+app.put('/api/agents/:agentId/word-filter',
+  web3Auth({ action: 'wordfilter:update' }),
+  requireAgentOwner,
+  async (req, res) => {
+    try {
+      const { agentId } = req.params;
+      const { mode = 'mask', allow, deny } = req.body;
 
+      if (!WORD_FILTER_MODES.includes(mode)) {
+        return res.status(400).json({ error: `mode must be one of: ${WORD_FILTER_MODES.join(', ')}` });
+      }
+      const allowList = normalizeWordList(allow);
+      const denyList = normalizeWordList(deny);
+      if (!allowList || !denyList) {
+        return res.status(400).json({
+          error: `allow and deny must be arrays of at most ${MAX_WORD_FILTER_ENTRIES} non-empty words`
+        });
+      }
 
+      const status = await StreamingStatus.findOneAndUpdate(
+        { agentId },
+        { $set: { wordFilter: { mode, allow: allowList, deny: denyList } } },
+        { new: true }
+      );
+      if (!status) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
+      agentSettingsCache.delete(agentId);
 
-app.post('/api/agents/audio', async (req, res) => {
-  // Check API key
-  // const apiKey = req.headers['api_key'];
-  // if (apiKey !== API_KEY) {
-  //   return res.status(401).json({ error: 'Invalid API key' });
-  // }
+      res.json({ success: true, wordFilter: status.wordFilter });
+    } catch (error) {
+      console.error('Error updating word filter:', error);
+      res.status(500).json({ error: 'Failed to update word filter' });
+    }
+});
 
+app.post('/api/agents/audio',
+  agentApiKeyAuth({ scope: 'speak', getAgentId: (req) => req.body.agentId }),
+  async (req, res) => {
   try {
     const { audioUrl, agentId, messageId } = req.body;
 
@@ -1185,7 +3590,7 @@ app.post('/api/agents/audio', async (req, res) => {
     }
 
     // Emit the audio response event for the specific agent
-    io.emit(`${agentId}_audio_response`, {
+    emitToAgent(agentId, 'audio_response', {
       agentId,
       audioUrl,
       messageId
@@ -1200,24 +3605,18 @@ app.post('/api/agents/audio', async (req, res) => {
 });
 
 // Animation and Expression endpoints
-app.post('/api/update-animation', async (req, res) => {
-  // Check API key
-  // const apiKey = req.headers['api_key'];
-  // if (apiKey !== API_KEY) {
-  //   console.log('Invalid API key', apiKey, 'expected:', API_KEY, { headers: req?.headers });
-  //   return res.status(401).json({ error: 'Invalid API key' });
-  // }
-
+app.post('/api/update-animation',
+  agentApiKeyAuth({ scope: 'animate', getAgentId: (req) => req.body.agentId }),
+  async (req, res) => {
   try {
     console.log('update-animation', req.body);
     const animation = req.body.animation;
     const agentId = req.body.agentId;
     console.log(`Requested animation: ${animation} for agentId: ${agentId}`);
 
-    io.emit('update_animation', animation);
-
-    if (agentId) {
-      io.emit(`${agentId}_update_animation`, animation);
+    emitToAgent(agentId, 'update_animation', animation);
+    if (LEGACY_AGENT_EVENTS) {
+      io.emit('update_animation', animation);
     }
 
     res.status(200).json({ success: true });
@@ -1227,22 +3626,22 @@ app.post('/api/update-animation', async (req, res) => {
   }
 });
 
-app.post('/api/update-expression', async (req, res) => {
-  // Check API key
-  // const apiKey = req.headers['api_key'];
-  // if (apiKey !== API_KEY) {
-  //   return res.status(401).json({ error: 'Invalid API key' });
-  // }
-
+app.post('/api/update-expression',
+  agentApiKeyAuth({ scope: 'animate', getAgentId: (req) => req.body.agentId }),
+  async (req, res) => {
   try {
     const expression = req.body.expression;
+    const agentId = req.body.agentId;
     console.log('Requested expression:', expression)
 
     if (!expression) {
       return res.status(400).json({ error: 'No expression specified' });
     }
 
-    io.emit('update_expression', expression);
+    emitToAgent(agentId, 'update_expression', expression);
+    if (LEGACY_AGENT_EVENTS) {
+      io.emit('update_expression', expression);
+    }
     console.log('Sent expression:', expression);
     res.status(200).json({ success: true });
   } catch (error) {
@@ -1251,20 +3650,28 @@ app.post('/api/update-expression', async (req, res) => {
   }
 });
 
-app.post('/api/update-emotion', async (req, res) => {
+app.post('/api/update-emotion',
+  agentApiKeyAuth({ scope: 'animate', getAgentId: (req) => req.body.agentId }),
+  async (req, res) => {
   try {
     const expression = req.body.expression;
     const animation = req.body.animation;
     const emotion = req.body.emotion;
+    const agentId = req.body.agentId;
     console.log('Requested expression:', emotion, animation, expression)
 
     if (!expression) {
       return res.status(400).json({ error: 'No expression specified' });
     }
 
-    io.emit('update_expression', expression);
-    io.emit('update_animation', animation);
-    io.emit('update_emotion', emotion);
+    emitToAgent(agentId, 'update_expression', expression);
+    emitToAgent(agentId, 'update_animation', animation);
+    emitToAgent(agentId, 'update_emotion', emotion);
+    if (LEGACY_AGENT_EVENTS) {
+      io.emit('update_expression', expression);
+      io.emit('update_animation', animation);
+      io.emit('update_emotion', emotion);
+    }
     console.log('Sent expression:', expression);
     res.status(200).json({ success: true });
   } catch (error) {
@@ -1274,77 +3681,70 @@ app.post('/api/update-emotion', async (req, res) => {
 });
 
 
-app.post('/api/ai-responses', async (req, res) => {
-  // Check API key
-  // const apiKey = req.headers['api_key'];
-  // if (apiKey !== API_KEY) {
-  //   console.log('Invalid API key', apiKey, 'expected:', API_KEY, { headers: req?.headers });
-  //   return res.status(401).json({ error: 'Invalid API key' });
-  // }
-
+app.post('/api/ai-responses',
+  agentApiKeyAuth({ scope: 'speak', getAgentId: (req) => req.body.agentId }),
+  async (req, res) => {
   const { agentId, ...requestBody } = req.body;
   try {
 
     console.log('ai-responses', req.body);
 
     // Type validation
-    // const validateAIResponse = (input: any): input is AIResponseInput => {
-    //   return (
-    //     // Required fields
-    //     typeof input.id === 'string' &&
-    //     typeof input.text === 'string' &&
-
-    //     // Optional reply fields
-    //     (input.replyToUser === undefined || typeof input.replyToUser === 'string') &&
-    //     (input.replyToMessageId === undefined || typeof input.replyToMessageId === 'string') &&
-    //     (input.replyToMessage === undefined || typeof input.replyToMessage === 'string') &&
-    //     (input.replyToHandle === undefined || typeof input.replyToHandle === 'string') &&
-    //     (input.replyToPfp === undefined || typeof input.replyToPfp === 'string') &&
-    //     // Optional metadata
-    //     (input.intensity === undefined || typeof input.intensity === 'number') &&
-    //     (input.thought === undefined || typeof input.thought === 'boolean') &&
-
-    //     // Gift-specific fields
-    //     (input.isGiftResponse === undefined || typeof input.isGiftResponse === 'boolean') &&
-    //     (input.giftId === undefined || typeof input.giftId === 'string') &&
-
-
-    //     // Animation field
-    //     (input.animation === undefined || typeof input.animation === 'string')
-    //   );
-    // };
-
-    // if (!validateAIResponse(requestBody)) {
-    //   return res.status(400).json({
-    //     error: 'Invalid request body format',
-    //     required: {
-    //       id: 'string',
-    //       text: 'string'
-    //     },
-    //     optional: {
-    //       // Reply fields
-    //       replyToUser: 'string',
-    //       replyToMessageId: 'string',
-    //       replyToMessage: 'string',
-    //       replyToHandle: 'string',
-    //       replyToPfp: 'string',
-
-    //       // Metadata
-    //       intensity: 'number',
-    //       thought: 'boolean',
-
-    //       // Gift fields
-    //       isGiftResponse: 'boolean',
-    //       giftId: 'string',
-
-    //       // Animation
-    //       animation: 'string'
-    //     }
-    //   });
-    // }
-
-
-    // const savedResponse = await new AIResponse(requestBody).save();
+    const validateAIResponse = (input: any): boolean => {
+      return (
+        // Required fields
+        typeof input.id === 'string' &&
+        typeof input.text === 'string' &&
+
+        // Optional reply fields
+        (input.replyToUser === undefined || typeof input.replyToUser === 'string') &&
+        (input.replyToMessageId === undefined || typeof input.replyToMessageId === 'string') &&
+        (input.replyToMessage === undefined || typeof input.replyToMessage === 'string') &&
+        (input.replyToHandle === undefined || typeof input.replyToHandle === 'string') &&
+        (input.replyToPfp === undefined || typeof input.replyToPfp === 'string') &&
+        // Optional metadata
+        (input.intensity === undefined || typeof input.intensity === 'number') &&
+        (input.thought === undefined || typeof input.thought === 'boolean') &&
+
+        // Gift-specific fields
+        (input.isGiftResponse === undefined || typeof input.isGiftResponse === 'boolean') &&
+        (input.giftId === undefined || typeof input.giftId === 'string') &&
+
+        // Animation and audio fields
+        (input.animation === undefined || typeof input.animation === 'string') &&
+        (input.audioUrl === undefined || typeof input.audioUrl === 'string')
+      );
+    };
+
+    if (!validateAIResponse(requestBody)) {
+      return res.status(400).json({
+        error: 'Invalid request body format',
+        required: {
+          id: 'string',
+          text: 'string'
+        },
+        optional: {
+          // Reply fields
+          replyToUser: 'string',
+          replyToMessageId: 'string',
+          replyToMessage: 'string',
+          replyToHandle: 'string',
+          replyToPfp: 'string',
+
+          // Metadata
+          intensity: 'number',
+          thought: 'boolean',
+
+          // Gift fields
+          isGiftResponse: 'boolean',
+          giftId: 'string',
+
+          // Animation and audio
+          animation: 'string',
+          audioUrl: 'string'
+        }
+      });
+    }
 
     // Get user profile if replyToUser is provided
     let handle;
@@ -1361,84 +3761,83 @@ app.post('/api/ai-responses', async (req, res) => {
       }
     }
 
-    // // Emit animation update if provided
-    // if (requestBody.animation) {
-    //   console.log('AI_RESPONSE: EMIT update_animation', { agentId, requestBody });
-    //   if (agentId) {
-    //     io.emit(`${agentId}_update_animation`, requestBody.animation);
-    //   } else {
-    //     io.emit('update_animation', requestBody.animation);
-    //   }
-    // }
-
-    // // Emit audio response if provided
-    // if (requestBody.audioUrl) {
-    //   console.log('AI_RESPONSE: EMIT audio_response', { agentId, audioUrl: requestBody.audioUrl });
-    //   io.emit(`${agentId}_audio_response`, {
-    //     messageId: requestBody.id,
-    //     audioUrl: requestBody.audioUrl
-    //   });
-    // }
+    // Store the response once per id, agent runtimes retry on network errors. An id taken by
+    // another agent fails the upsert on the unique id index and is rejected below.
+    const result = await AIResponse.findOneAndUpdate(
+      { id: requestBody.id, agentId },
+      {
+        $setOnInsert: {
+          id: requestBody.id,
+          agentId,
+          text: requestBody.text,
+          replyToUser: requestBody.replyToUser,
+          replyToMessageId: requestBody.replyToMessageId,
+          replyToMessage: requestBody.replyToMessage,
+          replyToHandle: handle || requestBody.replyToHandle,
+          replyToPfp: pfp || requestBody.replyToPfp,
+          intensity: requestBody.intensity,
+          animation: requestBody.animation,
+          audioUrl: requestBody.audioUrl,
+          isGiftResponse: requestBody.isGiftResponse,
+          giftId: requestBody.giftId,
+          thought: requestBody.thought,
+          createdAt: new Date()
+        }
+      },
+      { upsert: true, new: true, includeResultMetadata: true }
+    );
+    const savedResponse = result.value;
 
-    // Emit response with appropriate channel
-    if (!agentId) {
-      io.emit('ai_response', {
-        id: requestBody.id,
-        agentId: agentId || undefined,
-        // aiResponse: savedResponse,
-        text: requestBody.text,
-        animation: requestBody.animation,
-        handle,
-        pfp,
-        replyToUser: requestBody.replyToUser,
-        replyToMessageId: requestBody.replyToMessageId,
-        replyToMessage: requestBody.replyToMessage,
-        replyToHandle: requestBody.replyToHandle,
-        replyToPfp: requestBody.replyToPfp,
-        isGiftResponse: requestBody.isGiftResponse,
-        giftId: requestBody.giftId,
-        audioUrl: requestBody.audioUrl,
-        thought: requestBody.thought,
-      });
-    } else {
-      console.log('EMIT ai_response', { agentId, requestBody });
-      io.emit(`${agentId}_ai_response`, {
-        id: requestBody.id,
-        agentId,
-        // aiResponse: savedResponse,
-        text: requestBody.text,
-        animation: requestBody.animation,
-        handle,
-        pfp,
-        replyToUser: requestBody.replyToUser,
-        replyToMessageId: requestBody.replyToMessageId,
-        replyToMessage: requestBody.replyToMessage,
-        replyToHandle: requestBody.replyToHandle,
-        replyToPfp: requestBody.replyToPfp,
-        isGiftResponse: requestBody.isGiftResponse,
-        giftId: requestBody.giftId,
-        audioUrl: requestBody.audioUrl,
-        thought: requestBody.thought,
-      });
+    if (result.lastErrorObject?.updatedExisting) {
+      console.log('Duplicate ai_response ignored', requestBody.id);
+      return res.status(200).json({ success: true, duplicate: true, aiResponse: savedResponse });
     }
 
-    res.status(200).json({ success: true });
+    // Emit response to the agent's viewers
+    const aiResponsePayload = {
+      id: requestBody.id,
+      agentId,
+      aiResponse: savedResponse,
+      text: requestBody.text,
+      animation: requestBody.animation,
+      handle,
+      pfp,
+      replyToUser: requestBody.replyToUser,
+      replyToMessageId: requestBody.replyToMessageId,
+      replyToMessage: requestBody.replyToMessage,
+      replyToHandle: requestBody.replyToHandle,
+      replyToPfp: requestBody.replyToPfp,
+      isGiftResponse: requestBody.isGiftResponse,
+      giftId: requestBody.giftId,
+      audioUrl: requestBody.audioUrl,
+      thought: requestBody.thought,
+    };
+
+    console.log('EMIT ai_response', { agentId, requestBody });
+    emitToAgent(agentId, 'ai_response', aiResponsePayload);
+
+    res.status(200).json({ success: true, aiResponse: savedResponse });
   } catch (error) {
+    if (error?.code === 11000 && error?.keyPattern?.id) {
+      return res.status(409).json({ error: 'Response id already used by another agent' });
+    }
     console.error('Error generating AI response:', error);
     res.status(500).json({ error: error.message });
   }
 });
 
 
-app.post('/api/comments/mark-read', async (req, res) => {
+app.post('/api/comments/mark-read',
+  agentApiKeyAuth({ scope: 'read-comments', getAgentId: (req) => req.body.agentId }),
+  async (req, res) => {
   try {
-    const { commentIds } = req.body;
+    const { commentIds, agentId } = req.body;
 
     if (!Array.isArray(commentIds)) {
       return res.status(400).json({ error: 'commentIds must be an array' });
     }
 
-    const result = await markCommentsAsRead(commentIds);
+    const result = await markCommentsAsRead(commentIds, agentId);
     if (!result.success) {
       return res.status(500).json({ error: result.error });
     }
@@ -1454,25 +3853,122 @@ app.post('/api/comments/mark-read', async (req, res) => {
 });
 
 
+// Viewer actions anonymous sockets may still perform, e.g. ANONYMOUS_SOCKET_ACTIONS=new_like
+const ANONYMOUS_SOCKET_ACTIONS = new Set(
+  (process.env.ANONYMOUS_SOCKET_ACTIONS || '')
+    .split(',')
+    .map(action => action.trim())
+    .filter(Boolean)
+);
+
+// Stored as the user of comments and likes from anonymous sockets
+const ANONYMOUS_USER = 'anonymous';
+
+// Longest comment accepted, also keeps the word filter and mention lookup cheap
+const MAX_COMMENT_LENGTH = Number(process.env.MAX_COMMENT_LENGTH) || 500;
+
+// Authenticate sockets with the same `pk.msg.sig` token web3Auth uses, passed as `auth.token`.
+// Reconnects pass the session token sent in `initial_state` as `auth.sessionToken` instead,
+// since the signed token's nonce is already used. Sockets without either connect anonymously
+// and can only watch.
+io.use(async (socket, next) => {
+  const { token, sessionToken } = socket.handshake.auth || {};
+  socket.data.publicKey = null;
+  if (sessionToken) {
+    const session = verifySocketSessionToken(sessionToken);
+    if (session.success === false) {
+      return next(new Error(session.error));
+    }
+    socket.data.publicKey = session.pk;
+    return next();
+  }
+  if (!token) {
+    return next();
+  }
+
+  try {
+    const verification = await verifyWeb3AuthToken(token, { action: 'socket:connect' });
+    if (verification.success === false) {
+      return next(new Error(verification.error));
+    }
+    socket.data.publicKey = verification.pk;
+    next();
+  } catch (error) {
+    console.error('Error authenticating socket:', error);
+    next(new Error('Failed to verify authorization'));
+  }
+});
+
+// Returns whether the socket may perform a viewer action, and as which wallet
+function authorizeSocketAction(socket: Socket, action: string): { allowed: boolean; publicKey: string | null } {
+  const publicKey: string | null = socket.data.publicKey || null;
+  if (publicKey) {
+    return { allowed: true, publicKey };
+  }
+  return { allowed: ANONYMOUS_SOCKET_ACTIONS.has(action), publicKey: null };
+}
+
+// Agent-side socket events (stream status, audio) carry the agent's API key as `apiKey`. With
+// `allowOwner`, a socket signed in with the owner's wallet may send them without a key.
+async function authorizeAgentSocketEvent(
+  socket: Socket,
+  agentId: unknown,
+  { apiKey, scope, allowOwner = false }: { apiKey: unknown; scope: string; allowOwner?: boolean }
+): Promise<{ success: true } | { success: false; error: string }> {
+  if (!agentId || typeof agentId !== 'string') {
+    return { success: false, error: 'agentId is required' };
+  }
+  if (apiKey && typeof apiKey === 'string') {
+    const verification = await verifyAgentApiKey(apiKey, agentId, scope);
+    return verification.success === false ? { success: false, error: verification.error } : { success: true };
+  }
+  if (allowOwner && socket.data.publicKey && await verifyAgentOwner(socket.data.publicKey, agentId)) {
+    return { success: true };
+  }
+  return { success: false, error: allowOwner ? 'API key or owner wallet required' : 'API key required' };
+}
+
 // Update the socket connection handler
 io.on('connection', (socket) => {
-  console.log('Client connected:', socket.id);
+  console.log('Client connected:', socket.id, socket.data.publicKey || 'anonymous');
 
   socket.emit('initial_state', {
     peerCount: getConnectedPeers(),
     likes: likeCount,
-    commentCount
+    commentCount,
+    publicKey: socket.data.publicKey,
+    ...(socket.data.publicKey && issueSocketSessionToken(socket.data.publicKey))
   });
 
+  // Renew the session token well before it expires so a long-lived socket can still reconnect
+  const sessionRenewal = socket.data.publicKey
+    ? setInterval(() => {
+      socket.emit('session_renewed', issueSocketSessionToken(socket.data.publicKey));
+    }, socketSessionTtlSeconds() * 1000 / 2)
+    : null;
+
   io.emit('peer_count', { count: getConnectedPeers() });
 
   socket.on('request_peer_count', () => {
     socket.emit('peer_count', { count: getConnectedPeers() });
   });
 
+  // Same writers as PUT /api/scenes: the agent runtime's `stream` key or the owner's wallet.
+  // Only existing agents can be updated, new ones are created with POST /api/scenes.
   socket.on('update_streaming_status', async (data) => {
     try {
-      const { agentId, isStreaming, title } = data;
+      const { agentId, isStreaming, title, apiKey } = data || {};
+      const authorization = await authorizeAgentSocketEvent(socket, agentId, { apiKey, scope: 'stream', allowOwner: true });
+      if (authorization.success === false) {
+        socket.emit('action_rejected', { action: 'update_streaming_status', error: authorization.error });
+        return;
+      }
+
+      const previous = await StreamingStatus.findOne({ agentId }, { isStreaming: 1 }).lean();
+      if (!previous) {
+        socket.emit('action_rejected', { action: 'update_streaming_status', error: 'Agent not found' });
+        return;
+      }
       const status = await StreamingStatus.findOneAndUpdate(
         { agentId },
         {
@@ -1481,19 +3977,26 @@ io.on('connection', (socket) => {
           startedAt: isStreaming ? new Date() : null,
           updatedAt: new Date()
         },
-        { upsert: true, new: true }
+        { new: true }
       );
-      io.emit('streaming_status_update', status);
+      onStreamStatusChange(previous.isStreaming, status);
+      io.emit('streaming_status_update', publicStreamStatus(status));
     } catch (error) {
       console.error('Error handling streaming status:', error);
     }
   });
 
 
+  // Needs the agent's API key with the `speak` scope, like POST /api/agents/audio
   socket.on('audio_response', async (data) => {
     try {
-      console.log('Received audio response socket event:', data);
-      const { messageId, agentId, audioUrl } = data;
+      const { messageId, agentId, audioUrl, apiKey } = data || {};
+      const authorization = await authorizeAgentSocketEvent(socket, agentId, { apiKey, scope: 'speak' });
+      if (authorization.success === false) {
+        socket.emit('action_rejected', { action: 'audio_response', error: authorization.error });
+        return;
+      }
+      console.log('Received audio response socket event:', { messageId, agentId, audioUrl });
 
       const audioResponse = new AudioResponse({
         messageId,
@@ -1503,8 +4006,8 @@ io.on('connection', (socket) => {
 
       await audioResponse.save();
 
-      // Emit to all clients
-      io.emit(`${agentId}_audio_response`, {
+      // Emit to the agent's viewers
+      emitToAgent(agentId, 'audio_response', {
         messageId,
         agentId,
         audioUrl
@@ -1517,39 +4020,123 @@ io.on('connection', (socket) => {
 
   socket.on('new_gift', async (data) => {
     console.log('new_gift', data);
-    const { gift, agentId } = data;
 
     try {
+      // Authenticated sockets can only report gifts they sent themselves,
+      // anonymous ones (if allowed) rely on the on-chain sender check alone
+      const { allowed, publicKey } = authorizeSocketAction(socket, 'new_gift');
+      if (!allowed) {
+        socket.emit('gift_error', { txHash: data.txHash, error: 'Authentication required' });
+        return;
+      }
+      if (publicKey && data.senderPublicKey !== publicKey) {
+        socket.emit('gift_error', { txHash: data.txHash, error: 'Gift was not sent by this wallet' });
+        return;
+      }
+      if (!await allowSocketAction(socket, 'new_gift', data.recipientAgentId, publicKey || data.senderPublicKey)) {
+        return;
+      }
+      const senderProfile = await UserProfile.findOne({ publicKey: data.senderPublicKey });
+
+      // Refuse hashes we have already recorded before hitting the RPC
+      const existingGift = await GiftTransaction.findOne({ txHash: data.txHash });
+      if (existingGift) {
+        socket.emit('gift_error', { txHash: data.txHash, error: 'Gift transaction already recorded' });
+        return;
+      }
+
+      // Name, icon and price come from the catalog, not from the payload
+      const giftCount = Number(data.giftCount);
+      const pricing = await priceGift(data.giftId, giftCount);
+      if (!pricing.success) {
+        socket.emit('gift_error', { txHash: data.txHash, error: pricing.error });
+        return;
+      }
+      const { gift: catalogGift, coinsTotal } = pricing;
+
+      // The transfer has to land in the agent's configured wallet, in a token it accepts
+      const recipientInfo = await resolveGiftRecipient(data.recipientAgentId);
+      if (!recipientInfo.success) {
+        socket.emit('gift_error', { txHash: data.txHash, error: recipientInfo.error });
+        return;
+      }
+      const mintAddress = data.mintAddress || AIKO_MINT_ADDRESS;
+      if (!recipientInfo.acceptedMints.includes(mintAddress)) {
+        socket.emit('gift_error', { txHash: data.txHash, error: 'Token not accepted by this agent' });
+        return;
+      }
+      const tokensTotal = coinsTotal * recipientInfo.tokensPerCoin[mintAddress];
+
+      // Make sure the transfer actually happened on-chain as claimed
+      const verification = await verifyGiftTransaction(solanaConnection, {
+        txHash: data.txHash,
+        senderPublicKey: data.senderPublicKey,
+        recipientWallet: recipientInfo.walletAddress,
+        mintAddress,
+        tokensTotal
+      });
+      if (!verification.success) {
+        console.log('Rejected gift transaction', data.txHash, verification.error);
+        socket.emit('gift_error', { txHash: data.txHash, error: verification.error });
+        return;
+      }
+
       // Save the gift transaction to the database
       const giftTransaction = new GiftTransaction({
         senderPublicKey: data.senderPublicKey,
         recipientAgentId: data.recipientAgentId,
-        recipientWallet: data.recipientWallet,
-        giftName: data.giftName,
-        giftCount: data.giftCount,
-        coinsTotal: data.coinsTotal,
+        recipientWallet: recipientInfo.walletAddress,
+        giftId: catalogGift._id,
+        giftName: catalogGift.name,
+        giftCount,
+        coinsTotal,
+        mintAddress,
+        tokensTotal,
         txHash: data.txHash,
-        handle: data.handle,
-        avatar: data.avatar,
-        pfp: data.pfp
+        handle: senderProfile?.handle,
+        avatar: senderProfile?.pfp,
+        pfp: senderProfile?.pfp
       });
 
       await giftTransaction.save();
+      queueForAgents([data.recipientAgentId], 'gift', giftTransaction._id.toString(), giftTransaction.createdAt);
+      markLeaderboardDirty('gifters', data.recipientAgentId);
+      bumpStreamStats(data.recipientAgentId, { gifts: 1, coins: coinsTotal });
+      dispatchWebhookEvent(data.recipientAgentId, 'gift.received', {
+        gift: {
+          id: giftTransaction._id.toString(),
+          senderPublicKey: giftTransaction.senderPublicKey,
+          handle: giftTransaction.handle,
+          giftId: giftTransaction.giftId,
+          giftName: giftTransaction.giftName,
+          giftCount: giftTransaction.giftCount,
+          coinsTotal: giftTransaction.coinsTotal,
+          txHash: giftTransaction.txHash,
+          createdAt: giftTransaction.createdAt
+        }
+      });
 
       // Prepare the enriched gift data for emission
       const enrichedGiftData = {
         ...data,
         txHash: data.txHash,
-        icon: data.icon || gift.icon,
+        recipientWallet: recipientInfo.walletAddress,
+        giftId: catalogGift._id,
+        giftName: catalogGift.name,
+        giftCount,
+        coinsTotal,
+        icon: catalogGift.icon,
         timestamp: Date.now(),
-        handle: data.handle || 'Anonymous',
-        avatar: data.avatar || 'default-avatar-url'
+        handle: senderProfile?.handle || 'Anonymous',
+        avatar: senderProfile?.pfp || 'default-avatar-url',
+        pfp: senderProfile?.pfp
       };
 
-      // Emit the enriched gift event to all clients
-      io.emit(`${data.recipientAgentId}_gift_received`, enrichedGiftData);
+      // Emit the enriched gift event to the agent's viewers
+      emitToAgent(data.recipientAgentId, 'gift_received', enrichedGiftData);
     } catch (error) {
       console.error('Error handling gift transaction:', error);
+      socket.emit('gift_error', { txHash: data.txHash, error: 'Failed to record gift transaction' });
     }
   });
 
@@ -1562,26 +4149,94 @@ io.on('connection', (socket) => {
     console.log('new_comment', {data});
     const { comment, agentId } = data;
     try {
-      commentCount++;
-      
-      // Filter the comment text
-      const filteredMessage = filterProfanity(comment.message);
-      console.log('filteredMessage', filteredMessage, comment.message);
+      // Identity comes from the socket handshake, never from the payload
+      const { allowed, publicKey } = authorizeSocketAction(socket, 'new_comment');
+      if (!allowed) {
+        socket.emit('action_rejected', { action: 'new_comment', error: 'Authentication required' });
+        return;
+      }
+      if (!await allowSocketAction(socket, 'new_comment', agentId, publicKey)) {
+        return;
+      }
+      const sanction = await findActiveSanction(publicKey, agentId);
+      if (sanction) {
+        socket.emit('action_rejected', {
+          action: 'new_comment',
+          error: sanction.type === 'ban' ? 'You are banned from this chat' : 'You are timed out',
+          expiresAt: sanction.expiresAt
+        });
+        return;
+      }
+      if (typeof comment?.message !== 'string' || !comment.message.trim()) {
+        socket.emit('action_rejected', { action: 'new_comment', error: 'Comment message is required' });
+        return;
+      }
+      if (comment.message.length > MAX_COMMENT_LENGTH) {
+        socket.emit('action_rejected', { action: 'new_comment', error: `Comments are limited to ${MAX_COMMENT_LENGTH} characters` });
+        return;
+      }
+      const userProfile = publicKey ? await UserProfile.findOne({ publicKey }) : null;
+
+      // Filter the comment text with the agent's word filter
+      const { wordFilter } = await getAgentSettings(agentId);
+      const matcher = getWordMatcher(wordFilter);
+      const mode = wordFilter?.mode || 'mask';
+      const isProfane = matcher.hasProfanity(comment.message);
+      if (isProfane && mode === 'reject') {
+        socket.emit('action_rejected', { action: 'new_comment', error: 'Comment contains blocked words' });
+        return;
+      }
+      const filteredMessage = isProfane && mode === 'mask' ? matcher.mask(comment.message) : comment.message;
+      const heldForReview = isProfane && mode === 'review';
+
+      // Replies must point at a visible comment or an AI response in the same stream
+      const parentId = typeof comment.parentId === 'string' && comment.parentId ? comment.parentId : null;
+      let repliesToAgent = false;
+      if (parentId) {
+        const [parentComment, parentResponse] = await Promise.all([
+          Comment.exists({ agentId, id: parentId, deletedAt: null, heldForReview: { $ne: true } }),
+          AIResponse.exists({ agentId, id: parentId })
+        ]);
+        if (!parentComment && !parentResponse) {
+          socket.emit('action_rejected', { action: 'new_comment', error: 'Parent comment not found' });
+          return;
+        }
+        repliesToAgent = !!parentResponse;
+      }
+      const { mentions, mentionsAgent } = await resolveMentions(filteredMessage, agentId);
 
-      
+      // Only the text and reply target come from the client, the rest is set here
       const newComment = new Comment({
-        ...comment,
+        id: uuidv4(),
         message: filteredMessage, // Use filtered message
         agentId,
-        avatar: comment.avatar,
-        handle: comment.handle
+        user: publicKey || ANONYMOUS_USER,
+        avatar: userProfile?.pfp,
+        handle: userProfile?.handle || 'Anonymous',
+        heldForReview,
+        parentId,
+        mentions,
+        addressesAgent: mentionsAgent || repliesToAgent,
+        createdAt: new Date()
       });
       console.log('newComment', newComment);
       await newComment.save();
-      io.emit('comment_received', { newComment, commentCount });
+      if (heldForReview) {
+        // Only the sender hears about it until a moderator approves the comment
+        socket.emit('comment_held', { agentId, commentId: newComment.id });
+        return;
+      }
+      commentCount++;
+      if (!agentId || LEGACY_AGENT_EVENTS) {
+        io.emit('comment_received', { newComment, commentCount });
+      }
       if (agentId) {
-        io.emit(`${agentId}_comment_received`, { newComment, commentCount });
+        emitToAgent(agentId, 'comment_received', { newComment, commentCount });
+        queueForAgents([agentId], 'comment', newComment.id, newComment.createdAt);
+        dispatchWebhookEvent(agentId, 'comment.received', { comment: commentWebhookData(newComment) });
+        bumpStreamStats(agentId, { comments: 1 });
       }
+      markLeaderboardDirty('commenters', agentId);
     } catch (error) {
       console.error('Error handling new_comment:', error);
     }
@@ -1589,83 +4244,203 @@ io.on('connection', (socket) => {
 
   socket.on('new_like', async (data) => {
     console.log('new_like', data);
-    const { agentId, user } = data;
+    const { agentId } = data;
     try {
+      const { allowed, publicKey } = authorizeSocketAction(socket, 'new_like');
+      if (!allowed) {
+        socket.emit('action_rejected', { action: 'new_like', error: 'Authentication required' });
+        return;
+      }
+      if (!await allowSocketAction(socket, 'new_like', agentId, publicKey)) {
+        return;
+      }
+      const sanction = await findActiveSanction(publicKey, agentId);
+      if (sanction) {
+        socket.emit('action_rejected', {
+          action: 'new_like',
+          error: sanction.type === 'ban' ? 'You are banned from this chat' : 'You are timed out',
+          expiresAt: sanction.expiresAt
+        });
+        return;
+      }
+
       likeCount++;
-      const like = new Like({ agentId, user });
+      const like = new Like({ agentId, user: publicKey || ANONYMOUS_USER });
       await like.save();
+      bumpStreamStats(agentId, { likes: 1 });
       io.emit('like_received', { likes: likeCount });
       if (agentId) {
-        io.emit(`${agentId}_like_received`, like);
+        emitToAgent(agentId, 'like_received', like);
+        trackLikeBurst(agentId);
       }
+      markLeaderboardDirty('likers', agentId);
     } catch (error) {
       console.error('Error handling new_like:', error);
     }
   });
 
+  // Add (or with `remove: true`, take back) an emoji reaction to a comment or AI response
+  socket.on('new_reaction', async (data) => {
+    const { agentId, messageId, emoji, remove } = data || {};
+    try {
+      const { allowed, publicKey } = authorizeSocketAction(socket, 'new_reaction');
+      // Reactions are one per wallet and emoji, so anonymous sockets cannot react
+      if (!allowed || !publicKey) {
+        socket.emit('action_rejected', { action: 'new_reaction', error: 'Authentication required' });
+        return;
+      }
+      if (!agentId || typeof messageId !== 'string' || !REACTION_EMOJIS.includes(emoji)) {
+        socket.emit('action_rejected', { action: 'new_reaction', error: 'Invalid reaction' });
+        return;
+      }
+      if (!await allowSocketAction(socket, 'new_reaction', agentId, publicKey)) {
+        return;
+      }
+      const sanction = await findActiveSanction(publicKey, agentId);
+      if (sanction) {
+        socket.emit('action_rejected', {
+          action: 'new_reaction',
+          error: sanction.type === 'ban' ? 'You are banned from this chat' : 'You are timed out',
+          expiresAt: sanction.expiresAt
+        });
+        return;
+      }
+
+      const [comment, aiResponse] = await Promise.all([
+        Comment.exists({ agentId, id: messageId, deletedAt: null, heldForReview: { $ne: true } }),
+        AIResponse.exists({ agentId, id: messageId })
+      ]);
+      if (!comment && !aiResponse) {
+        socket.emit('action_rejected', { action: 'new_reaction', error: 'Message not found' });
+        return;
+      }
+      const messageType = comment ? 'comment' : 'ai_response';
+
+      const result = remove
+        ? await Reaction.deleteOne({ messageId, publicKey, emoji })
+        : await Reaction.updateOne(
+          { messageId, publicKey, emoji },
+          { $setOnInsert: { messageType, agentId, createdAt: new Date() } },
+          { upsert: true }
+        );
+      const changed = 'deletedCount' in result ? result.deletedCount > 0 : result.upsertedCount > 0;
+      if (!changed) {
+        return;
+      }
+
+      const reactions = await reactionCounts([messageId]);
+      emitToAgent(agentId, 'reaction_updated', {
+        agentId,
+        messageId,
+        messageType,
+        reactions: reactions.get(messageId) || {}
+      });
+    } catch (error) {
+      console.error('Error handling new_reaction:', error);
+    }
+  });
+
   socket.on('error', (error) => {
     console.error('Socket error:', error);
   });
 
   // Add these new socket event handlers
+  // { type, agentId?, timeframe?, window?, tz? }; the current board is sent right away
+  socket.on('subscribe_leaderboard', async (data) => {
+    try {
+      if (!await allowSocketAction(socket, 'subscribe_leaderboard', undefined, socket.data.publicKey || null)) {
+        return;
+      }
+      const params = { type: data?.type, timeframe: data?.timeframe, window: data?.window, tz: data?.tz };
+      const { query, error } = parseLeaderboardQuery(params, data?.agentId || null, LIVE_LEADERBOARD_SIZE);
+      if (error) {
+        socket.emit('action_rejected', { action: 'subscribe_leaderboard', error });
+        return;
+      }
+
+      const liveParams = liveLeaderboardParams(query);
+      const room = leaderboardRoom(query.agentId, liveParams);
+      if (!socket.rooms.has(room) && [...socket.rooms].filter(isLeaderboardRoom).length >= MAX_LEADERBOARDS_PER_SOCKET) {
+        socket.emit('action_rejected', {
+          action: 'subscribe_leaderboard',
+          error: `At most ${MAX_LEADERBOARDS_PER_SOCKET} live leaderboards per connection`
+        });
+        return;
+      }
+      let subscription = leaderboardSubscriptions.get(room);
+      if (!subscription) {
+        if (leaderboardSubscriptions.size >= MAX_LIVE_LEADERBOARDS) {
+          socket.emit('action_rejected', { action: 'subscribe_leaderboard', error: 'Too many live leaderboards, try again later' });
+          return;
+        }
+        subscription = { agentId: query.agentId, params: liveParams, signature: null, computedAt: 0, lastUpdate: null };
+        leaderboardSubscriptions.set(room, subscription);
+      }
+      socket.join(room);
+      if (!subscription.lastUpdate) {
+        const computedAt = Date.now();
+        const update = await leaderboardUpdate(subscription);
+        Object.assign(subscription, { computedAt, lastUpdate: update, signature: leaderboardSignature(update.entries) });
+      }
+      socket.emit('leaderboard_update', subscription.lastUpdate);
+    } catch (error) {
+      console.error('Error handling subscribe_leaderboard:', error);
+    }
+  });
+
+  socket.on('unsubscribe_leaderboard', (data) => {
+    const params = { type: data?.type, timeframe: data?.timeframe, window: data?.window, tz: data?.tz };
+    const { query } = parseLeaderboardQuery(params, data?.agentId || null, LIVE_LEADERBOARD_SIZE);
+    if (query) {
+      socket.leave(leaderboardRoom(query.agentId, liveLeaderboardParams(query)));
+    }
+  });
+
+  // Tabs of the same wallet, or of the same browser via the handshake's `auth.clientId`, count as one viewer
+  const viewerKey = viewerKeyFor(socket.id, socket.data.publicKey, socket.handshake.auth?.clientId);
+
   socket.on('join_agent_stream', (agentId: string) => {
     const previousStream = socketToStream.get(socket.id);
     if (previousStream) {
-      agentViewers.get(previousStream)?.delete(socket.id);
+      removeViewerSocket(previousStream, viewerKey, socket.id, onViewerDeparted);
+      socket.leave(agentRoom(previousStream));
+      emitViewerCount(previousStream);
     }
 
+    socket.join(agentRoom(agentId));
     socketToStream.set(socket.id, agentId);
-    if (!agentViewers.has(agentId)) {
-      agentViewers.set(agentId, new Set());
-    }
-    agentViewers.get(agentId)?.add(socket.id);
+    addViewerSocket(agentId, viewerKey, socket.id);
 
+    emitViewerCount(agentId);
     emitStreamCounts(); // Emit updated counts to all clients
   });
 
   socket.on('leave_agent_stream', (agentId: string) => {
-    // Remove this socket from the agent's viewers
-    agentViewers.get(agentId)?.delete(socket.id);
+    // Remove this socket from the agent's viewers and room
+    removeViewerSocket(agentId, viewerKey, socket.id, onViewerDeparted);
+    socket.leave(agentRoom(agentId));
+    if (socketToStream.get(socket.id) === agentId) {
+      socketToStream.delete(socket.id);
+    }
 
     // Emit updated viewer count
-    const viewerCount = agentViewers.get(agentId)?.size || 0;
-    io.emit(`${agentId}_viewer_count`, { count: viewerCount });
-
-    // Clean up empty sets
-    if (viewerCount === 0) {
-      agentViewers.delete(agentId);
-    }
+    emitViewerCount(agentId);
   });
 
   // Update the disconnect handler
   socket.on('disconnect', () => {
+    clearInterval(sessionRenewal);
     const agentId = socketToStream.get(socket.id);
     if (agentId) {
-      agentViewers.get(agentId)?.delete(socket.id);
+      removeViewerSocket(agentId, viewerKey, socket.id, onViewerDeparted);
       socketToStream.delete(socket.id);
+      emitViewerCount(agentId);
       emitStreamCounts(); // Emit updated counts to all clients
     }
     console.log('Client disconnected:', socket.id);
   });
 });
 
-// Create a custom filter function
-function filterProfanity(text: string): string {
-  // Get the bad words array from the list
-  const badWords = badwordsList.array;
-  
-  // Convert text to lowercase for checking
-  let filteredText = text;
-  
-  // Replace bad words with asterisks
-  badWords.forEach(word => {
-    const regex = new RegExp(`\\b${word}\\b`, 'gi');
-    filteredText = filteredText.replace(regex, '*'.repeat(word.length));
-  });
-  
-  return filteredText;
-}
-
 async function saveAgentMap(walletAddress: string, name: string, agentId: string) {
   const agentMap = await AgentMap.findOne({ _id: "global_agent_map" });
   if (agentMap) {
@@ -1725,6 +4500,8 @@ interface Creator {
 interface StreamStats {
   likes: number;
   comments: number;
+  gifts: number;
+  coins: number;
   bookmarks: number;
   shares: number;
 }
@@ -1813,6 +4590,8 @@ app.get('/api/scenes', async (req: express.Request, res: express.Response) => {
       stats: stream.stats || {
         likes: 0,
         comments: 0,
+        gifts: 0,
+        coins: 0,
         bookmarks: 0,
         shares: 0
       }
@@ -1825,20 +4604,29 @@ app.get('/api/scenes', async (req: express.Request, res: express.Response) => {
   }
 });
 
-app.post('/api/scenes', async (req: express.Request, res: express.Response) => {
+// The signing wallet becomes the new agent's owner (`dPublicKey`), admins can create agents for others
+app.post('/api/scenes', web3Auth({ action: 'scene:create' }), async (req: express.Request, res: express.Response) => {
   try {
     const {
       agentId,
       title,
       sceneConfigs,
       characterName,
+      dPublicKey,
       ...otherData
     } = req.body;
+    const creator = authorizedPk(res);
 
     // Validate required fields
     if (!agentId) {
       return res.status(400).json({ error: 'agentId is required' });
     }
+    if (await StreamingStatus.exists({ agentId })) {
+      return res.status(409).json({ error: 'Agent already exists' });
+    }
+    for (const field of SCENE_PROTECTED_FIELDS) {
+      delete otherData[field];
+    }
 
     // Validate sceneConfigs if provided
     if (sceneConfigs) {
@@ -1860,11 +4648,13 @@ app.post('/api/scenes', async (req: express.Request, res: express.Response) => {
       lastHeartbeat: new Date(),
       startedAt: new Date(),
       ...otherData,
+      dPublicKey: isAdminPk(creator) && dPublicKey ? dPublicKey : creator,
       // Only set sceneConfigs if provided, otherwise schema defaults will be used
       ...(sceneConfigs && { sceneConfigs })
     });
 
     await newStream.save();
+    onStreamStatusChange(false, newStream);
     res.status(201).json(newStream);
 
   } catch (error) {
@@ -1874,7 +4664,7 @@ app.post('/api/scenes', async (req: express.Request, res: express.Response) => {
 });
 // Add the put endpoint ('/api/agents/:agentId')
 
-app.put('/api/scenes/:agentId', async (req, res) => {
+app.put('/api/scenes/:agentId', requireSceneWriter, async (req, res) => {
   try {
     const { agentId } = req.params;
     const updateData = req.body;
@@ -1920,8 +4710,11 @@ app.put('/api/scenes/:agentId', async (req, res) => {
     const now = new Date();
     
     // Create an update object that preserves existing fields
+    const ignoredFields = res.locals.agentApiKey
+      ? [...SCENE_PROTECTED_FIELDS, ...SCENE_OWNERSHIP_FIELDS]
+      : SCENE_PROTECTED_FIELDS;
     const updateFields = Object.keys(updateData).reduce((acc, key) => {
-      if (updateData[key] !== undefined) {
+      if (updateData[key] !== undefined && !ignoredFields.includes(key)) {
         acc[key] = updateData[key];
       }
       return acc;
@@ -1930,6 +4723,10 @@ app.put('/api/scenes/:agentId', async (req, res) => {
     // Always update lastHeartbeat and updatedAt
     updateFields.lastHeartbeat = now;
     updateFields.updatedAt = now;
+    // A stream coming back online starts a new session, like `update_streaming_status` does
+    if (updateFields.isStreaming === true && !currentDoc?.isStreaming) {
+      updateFields.startedAt = now;
+    }
 
     const status = await StreamingStatus.findOneAndUpdate(
       { agentId },
@@ -1941,7 +4738,9 @@ app.put('/api/scenes/:agentId', async (req, res) => {
       }
     );
 
-    const viewerCount = agentViewers.get(agentId)?.size || 0;
+    onStreamStatusChange(currentDoc?.isStreaming, status);
+
+    const viewerCount = uniqueViewerCount(agentId);
     const response = {
       ...status.toObject(),
       stats: {
@@ -1950,8 +4749,8 @@ app.put('/api/scenes/:agentId', async (req, res) => {
       }
     };
 
-    io.emit('streaming_status_update', response);
-    io.emit(`${agentId}_heartbeat`, {
+    io.emit('streaming_status_update', publicStreamStatus(response));
+    emitToAgent(agentId, 'heartbeat', {
       timestamp: status.lastHeartbeat,
       isStreaming: status.isStreaming,
       viewers: viewerCount
@@ -2015,7 +4814,7 @@ app.post('/api/rooms/:roomId/messages', async (req, res) => {
     const messageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
     // Emit using the ai_response pattern with speechUrl
-    io.emit(`${agentId}_ai_response`, {
+    emitToAgent(agentId, 'ai_response', {
       id: messageId,
       agentId,
       text: message,
@@ -2039,6 +4838,21 @@ app.post('/api/rooms/:roomId/messages', async (req, res) => {
 
     await newMessage.save();
 
+    // Every other agent that has spoken in the room gets the message in its inbox
+    const roomAgents = await RoomMessage.distinct('agentId', { roomId, agentId: { $ne: agentId } });
+    queueForAgents(roomAgents, 'room_message', messageId, newMessage.createdAt);
+    const roomMessageData = {
+      message: {
+        id: messageId,
+        roomId,
+        agentId,
+        agentName,
+        message,
+        createdAt: newMessage.createdAt
+      }
+    };
+    roomAgents.forEach(roomAgentId => dispatchWebhookEvent(roomAgentId, 'room_message.received', roomMessageData));
+
     res.status(201).json({
       success: true,
       message: newMessage
@@ -2185,8 +4999,10 @@ app.get('/api/agent/:agentId', async (req, res) => {
 });
 
 app.post('/api/upload/vrm', 
+  restRateLimit('rest:upload'),
   vrmUpload, 
   web3Auth({ action: 'vrm:post', allowSkipCheck: true }), 
+  restWalletRateLimit('rest:upload'),
   async (req, res) => {
     try {
       // get the public key from the request
@@ -2261,6 +5077,7 @@ app.post('/api/upload/vrm',
 
 // Avatar Marketplace endpoints
 app.post('/api/create/vrm', 
+  restRateLimit('rest:upload'),
   fileUpload, 
   async (req, res) => {
     try {
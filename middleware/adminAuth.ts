@@ -0,0 +1,48 @@
+import { Request, RequestHandler } from 'express';
+import { authorizedPk } from './web3Auth.ts';
+
+/**
+ * Public keys allowed to perform admin-only operations, read from the
+ * comma-separated `ADMIN_PUBLIC_KEYS` environment variable.
+ */
+export const adminPublicKeys = (): Set<string> =>
+  new Set(
+    (process.env.ADMIN_PUBLIC_KEYS || '')
+      .split(',')
+      .map((key) => key.trim())
+      .filter(Boolean),
+  );
+
+export const isAdminPk = (pk?: string) => !!pk && adminPublicKeys().has(pk);
+
+/**
+ * Rejects requests whose authorized public key is not in the admin allowlist.
+ * Must be mounted after `web3Auth`, which sets the authorized public key.
+ */
+export const requireAdmin: RequestHandler = (req, res, next) => {
+  if (!isAdminPk(authorizedPk(res))) {
+    return res.status(403).send({ error: { message: 'Admin access required' } });
+  }
+  return next();
+};
+
+/**
+ * Only lets the request through when the authorized public key is the one
+ * being acted on (as returned by `getTargetPk`), or belongs to an admin.
+ * Must be mounted after `web3Auth`.
+ */
+export const requireSelfOrAdmin =
+  (getTargetPk: (req: Request) => string | undefined): RequestHandler =>
+  (req, res, next) => {
+    const pk = authorizedPk(res);
+    const targetPk = getTargetPk(req);
+    if (!targetPk) {
+      return res.status(400).send({ error: { message: 'Missing public key' } });
+    }
+    if (pk !== targetPk && !isAdminPk(pk)) {
+      return res
+        .status(403)
+        .send({ error: { message: 'Not allowed to modify this public key' } });
+    }
+    return next();
+  };
@@ -0,0 +1,102 @@
+import { Request, RequestHandler } from 'express';
+import { createHash, randomBytes } from 'crypto';
+import { AgentApiKey } from '../models/AgentApiKey.js';
+
+type AgentApiKeyConfigurationContext = {
+  /**
+   * Scope the key must have been granted, e.g. `speak`, `animate` or `read-comments`.
+   */
+  scope: string;
+  /**
+   * Returns the agent the request acts on. The key has to belong to that agent.
+   */
+  getAgentId: (req: Request) => string | undefined;
+};
+
+export const hashAgentApiKey = (key: string) =>
+  createHash('sha256').update(key).digest('hex');
+
+/**
+ * Generates a new plaintext key. Only its hash and prefix should be persisted.
+ */
+export const generateAgentApiKey = () => {
+  const key = `aiko_${randomBytes(24).toString('base64url')}`;
+  return { key, keyHash: hashAgentApiKey(key), prefix: key.slice(0, 12) };
+};
+
+type AgentApiKeyDocument = NonNullable<Awaited<ReturnType<typeof AgentApiKey.findOne>>>;
+
+type AgentApiKeyVerification =
+  | { success: true; apiKey: AgentApiKeyDocument }
+  | { success: false; status: number; error: string };
+
+/**
+ * Checks a plaintext key against the agent and scope, for callers outside of
+ * Express such as socket events. Records the key's use when it passes.
+ */
+export const verifyAgentApiKey = async (
+  key: string,
+  agentId: string,
+  scope: string,
+): Promise<AgentApiKeyVerification> => {
+  const apiKey = await AgentApiKey.findOne({
+    keyHash: hashAgentApiKey(key),
+    revokedAt: null,
+  });
+
+  if (!apiKey) {
+    return { success: false, status: 401, error: 'Invalid API key' };
+  }
+  if (apiKey.agentId !== agentId) {
+    return { success: false, status: 403, error: 'API key does not belong to this agent' };
+  }
+  if (!apiKey.scopes.includes(scope)) {
+    return { success: false, status: 403, error: `API key is missing the ${scope} scope` };
+  }
+
+  // Best effort, a failed timestamp update should not fail the request
+  AgentApiKey.updateOne(
+    { _id: apiKey._id },
+    { $set: { lastUsedAt: new Date() } },
+  ).catch((error) => console.error('Error updating API key usage:', error));
+
+  return { success: true, apiKey };
+};
+
+/**
+ * This middleware authenticates agent runtimes with a per-agent API key,
+ * sent in the `api_key` header. The key must not be revoked, must belong to
+ * the agent being acted on and must carry the required scope.
+ */
+export const agentApiKeyAuth =
+  (ctx: AgentApiKeyConfigurationContext): RequestHandler =>
+  async (req, res, next) => {
+    const { scope, getAgentId } = ctx;
+    const key = req.header('api_key');
+
+    if (!key) {
+      return res.status(401).send({ error: { message: 'Missing API key' } });
+    }
+
+    const agentId = getAgentId(req);
+    if (!agentId) {
+      return res.status(400).send({ error: { message: 'agentId is required' } });
+    }
+
+    try {
+      const verification = await verifyAgentApiKey(key, agentId, scope);
+      if (verification.success === false) {
+        return res
+          .status(verification.status)
+          .send({ error: { message: verification.error } });
+      }
+
+      res.locals.agentApiKey = verification.apiKey;
+      return next();
+    } catch (error) {
+      console.error('Error verifying API key:', error);
+      return res
+        .status(500)
+        .send({ error: { message: 'Failed to verify API key' } });
+    }
+  };
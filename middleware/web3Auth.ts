@@ -2,8 +2,10 @@ import nacl from 'tweetnacl';
 import { PublicKey } from '@solana/web3.js';
 import { Response, RequestHandler } from 'express';
 import b58 from 'bs58';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
 import { TextDecoder } from 'util';
 import { DateTime } from 'luxon';
+import { AuthNonce } from '../models/AuthNonce.js';
 
 /**
  * Configuration context that is passed to the middleware via
@@ -31,6 +33,174 @@ type Web3AuthHandlerCreator = (
   ctx: Web3AuthConfigurationContext,
 ) => RequestHandler;
 
+/**
+ * Contents of the signed message, JSON encoded and then base58 encoded.
+ * `nonce` must be a challenge issued by `issueWeb3AuthChallenge` for the
+ * signing public key, and can only be used once.
+ */
+type Web3AuthMessage = {
+  action: string;
+  exp: number;
+  nonce: string;
+};
+
+type Web3AuthVerification =
+  | { success: true; pk: string; contents: Web3AuthMessage }
+  | { success: false; error: string };
+
+/**
+ * How long an issued challenge stays usable, in seconds.
+ */
+const challengeTtlSeconds = () =>
+  Number(process.env.WEB3_AUTH_CHALLENGE_TTL_SECONDS) || 5 * 60;
+
+/**
+ * The furthest in the future a signed message may set its `exp`, in seconds.
+ */
+const maxSignatureLifetimeSeconds = () =>
+  Number(process.env.WEB3_AUTH_MAX_LIFETIME_SECONDS) || 15 * 60;
+
+/**
+ * Issues a single-use nonce bound to `publicKey`. The client has to include it
+ * in the next message it signs.
+ */
+export const issueWeb3AuthChallenge = async (publicKey: string) => {
+  const pk = new PublicKey(publicKey).toBase58();
+  const nonce = randomBytes(16).toString('hex');
+  const expiresAt = DateTime.local()
+    .toUTC()
+    .plus({ seconds: challengeTtlSeconds() });
+
+  await AuthNonce.create({
+    nonce,
+    publicKey: pk,
+    expiresAt: expiresAt.toJSDate(),
+  });
+
+  return {
+    nonce,
+    publicKey: pk,
+    expiresAt: expiresAt.toUnixInteger(),
+    maxLifetime: maxSignatureLifetimeSeconds(),
+  };
+};
+
+/**
+ * Verifies a `pk.msg.sig` token and consumes the nonce it carries.
+ * Shared by the HTTP middleware and the Socket.IO handshake.
+ */
+export const verifyWeb3AuthToken = async (
+  authToken: string | undefined,
+  ctx: Web3AuthConfigurationContext,
+): Promise<Web3AuthVerification> => {
+  const { action, allowSkipCheck } = ctx;
+  if (!authToken) {
+    return { success: false, error: 'Missing authorization token' };
+  }
+
+  let pk: string;
+  let contents: Web3AuthMessage;
+  try {
+    const [tokenPk, msg, sig] = authToken.split('.');
+    pk = new PublicKey(tokenPk).toBase58();
+    const hasValidSig = nacl.sign.detached.verify(
+      b58.decode(msg),
+      b58.decode(sig),
+      new PublicKey(pk).toBytes(),
+    );
+    if (!hasValidSig) {
+      return { success: false, error: 'Invalid signature' };
+    }
+    contents = JSON.parse(new TextDecoder().decode(b58.decode(msg)));
+  } catch (error) {
+    return { success: false, error: 'Malformed authorization token' };
+  }
+
+  const now = DateTime.local().toUTC().toUnixInteger();
+  if (typeof contents.exp !== 'number' || now > contents.exp) {
+    return { success: false, error: 'Expired signature' };
+  }
+  if (contents.exp - now > maxSignatureLifetimeSeconds()) {
+    return { success: false, error: 'Signature lifetime too long' };
+  }
+
+  const skipActionCheck = allowSkipCheck && contents.action === 'skip';
+  if (!skipActionCheck && contents.action !== action) {
+    return { success: false, error: 'Invalid action' };
+  }
+
+  if (typeof contents.nonce !== 'string' || !contents.nonce) {
+    return { success: false, error: 'Missing nonce' };
+  }
+  // Atomically mark the nonce as used so a captured token cannot be replayed
+  const consumed = await AuthNonce.findOneAndUpdate(
+    {
+      nonce: contents.nonce,
+      publicKey: pk,
+      consumedAt: null,
+      expiresAt: { $gt: new Date() },
+    },
+    { $set: { consumedAt: new Date() } },
+  );
+  if (!consumed) {
+    return { success: false, error: 'Invalid or already used nonce' };
+  }
+
+  return { success: true, pk, contents };
+};
+
+/**
+ * How long a socket session token stays usable, in seconds.
+ */
+export const socketSessionTtlSeconds = () =>
+  Number(process.env.SOCKET_SESSION_TTL_SECONDS) || 60 * 60;
+
+// Signs session tokens. Without SOCKET_SESSION_SECRET a restart invalidates every session,
+// and clients fall back to signing a fresh challenge.
+const socketSessionSecret =
+  process.env.SOCKET_SESSION_SECRET || randomBytes(32).toString('hex');
+
+const signSocketSession = (payload: string) =>
+  createHmac('sha256', socketSessionSecret).update(payload).digest('base64url');
+
+/**
+ * Issues a reusable `pk.exp.mac` token for a wallet whose socket handshake was
+ * verified. Socket.IO resends the same `auth` on every reconnect, and the
+ * challenge nonce can only be used once, so clients reconnect with this instead.
+ */
+export const issueSocketSessionToken = (pk: string) => {
+  const expiresAt = DateTime.local()
+    .toUTC()
+    .plus({ seconds: socketSessionTtlSeconds() })
+    .toUnixInteger();
+  const payload = `${pk}.${expiresAt}`;
+  return { sessionToken: `${payload}.${signSocketSession(payload)}`, expiresAt };
+};
+
+/**
+ * Checks a token from `issueSocketSessionToken`. Unlike signed messages it can be used again until it expires.
+ */
+export const verifySocketSessionToken = (
+  sessionToken: unknown,
+): { success: true; pk: string } | { success: false; error: string } => {
+  if (typeof sessionToken !== 'string') {
+    return { success: false, error: 'Malformed session token' };
+  }
+  const [pk, exp, mac] = sessionToken.split('.');
+  if (!pk || !exp || !mac) {
+    return { success: false, error: 'Malformed session token' };
+  }
+  const expected = Buffer.from(signSocketSession(`${pk}.${exp}`));
+  const given = Buffer.from(mac);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+    return { success: false, error: 'Invalid session token' };
+  }
+  if (DateTime.local().toUTC().toUnixInteger() > Number(exp)) {
+    return { success: false, error: 'Expired session token' };
+  }
+  return { success: true, pk };
+};
+
 /**
  * This authentication middleware is used to verify
  * that the request is signed by the owner of the public key.
@@ -38,11 +208,10 @@ type Web3AuthHandlerCreator = (
  * `Authorization: Bearer pk.msg.sig`
  * Where pk is the base58-encoded public key, msg is the base58-encoded message,
  * and sig is the base58-encoded signature.
- * This middleware does not validate the lifetime of the signature or the
- * contents of the message.
+ * The message has to carry an unused nonce from `GET /api/auth/challenge`,
+ * and an `exp` no further away than the configured maximum lifetime.
  */
-export const web3Auth: Web3AuthHandlerCreator = (ctx) => (req, res, next) => {
-  const { action, allowSkipCheck } = ctx;
+export const web3Auth: Web3AuthHandlerCreator = (ctx) => async (req, res, next) => {
   const authHeader = req.header('Authorization');
 
   if (!authHeader) {
@@ -50,40 +219,26 @@ export const web3Auth: Web3AuthHandlerCreator = (ctx) => (req, res, next) => {
       .status(401)
       .send({ error: { message: 'Missing Authorization header' } });
   }
-  console.log('authHeader:', authHeader);
   const [, authToken] = authHeader.split(' ');
-  const [pk, msg, sig] = authToken.split('.');
-  const hasValidSig = nacl.sign.detached.verify(
-    b58.decode(msg),
-    b58.decode(sig),
-    new PublicKey(pk).toBytes(),
-  );
-  console.log('hasValidSig:', hasValidSig);
-  if (!hasValidSig) {
-    return res.status(401).send({ error: { message: 'Invalid signature' } });
-  }
 
-  const contents = JSON.parse(new TextDecoder().decode(b58.decode(msg))) as {
-    action: string;
-    exp: number;
-  };
-
-  if (DateTime.local().toUTC().toUnixInteger() > contents.exp) {
-    return res.status(401).send({ error: { message: 'Expired signature' } });
-  }
+  try {
+    const verification = await verifyWeb3AuthToken(authToken, ctx);
+    if (verification.success === false) {
+      return res.status(401).send({ error: { message: verification.error } });
+    }
 
-  const skipActionCheck = allowSkipCheck && contents.action === 'skip';
-  console.log('💎', {
-    action: contents.action,
-    allowSkipCheck,
-    skipActionCheck,
-  });
-  if (!skipActionCheck && contents.action !== action) {
-    return res.status(401).send({ error: { message: 'Invalid action' } });
+    console.log('💎', {
+      action: verification.contents.action,
+      allowSkipCheck: ctx.allowSkipCheck,
+    });
+    res.locals.pubKey = verification.pk;
+    return next();
+  } catch (error) {
+    console.error('Error verifying web3 auth:', error);
+    return res
+      .status(500)
+      .send({ error: { message: 'Failed to verify authorization' } });
   }
-
-  res.locals.pubKey = pk;
-  return next();
 };
 
-export const authorizedPk = (res: Response) => res.locals.pubKey as string;
\ No newline at end of file
+export const authorizedPk = (res: Response) => res.locals.pubKey as string;
@@ -21,6 +21,11 @@ const AIResponseSchema = new mongoose.Schema({
     required: true,
     unique: true
   },
+  agentId: {
+    type: String,
+    required: false,
+    index: true
+  },
   text: {
     type: String,
     required: true
@@ -53,6 +58,10 @@ const AIResponseSchema = new mongoose.Schema({
     type: String,
     required: false
   },
+  audioUrl: {
+    type: String,
+    required: false
+  },
   createdAt: {
     type: Date,
     default: Date.now
@@ -72,4 +81,9 @@ const AIResponseSchema = new mongoose.Schema({
 
 });
 
+// Chat history and the per-agent listing read newest first
+AIResponseSchema.index({ agentId: 1, createdAt: -1 });
+// Per-agent full-text search over what the agent said
+AIResponseSchema.index({ agentId: 1, text: 'text' });
+
 module.exports = mongoose.model('AIResponse', AIResponseSchema);
\ No newline at end of file
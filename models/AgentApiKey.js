@@ -0,0 +1,58 @@
+import mongoose from 'mongoose';
+
+const { Schema, model } = mongoose;
+
+export const AGENT_API_KEY_SCOPES = ['speak', 'animate', 'read-comments', 'stream'];
+
+// API keys agent runtimes use to act on behalf of a single agent.
+// Only the SHA-256 hash of the key is stored, the plaintext is shown once on creation.
+const agentApiKeySchema = new Schema({
+  agentId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  name: {
+    type: String,
+    required: false
+  },
+  keyHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  prefix: { // First characters of the key, so owners can tell keys apart
+    type: String,
+    required: true
+  },
+  scopes: {
+    type: [{ type: String, enum: AGENT_API_KEY_SCOPES }],
+    default: AGENT_API_KEY_SCOPES
+  },
+  createdBy: {
+    type: String,
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  lastUsedAt: {
+    type: Date,
+    required: false
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  }
+});
+
+// Never leak the hash through the API
+agentApiKeySchema.set('toJSON', {
+  transform: (doc, ret) => {
+    delete ret.keyHash;
+    return ret;
+  }
+});
+
+export const AgentApiKey = model('AgentApiKey', agentApiKeySchema);
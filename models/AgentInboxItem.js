@@ -0,0 +1,59 @@
+import mongoose from 'mongoose';
+
+const { Schema, model } = mongoose;
+
+// One entry in an agent's work queue: a comment, gift or room message the agent runtime
+// still has to handle. Workers lease entries, then ack or nack them.
+const agentInboxItemSchema = new Schema({
+  agentId: {
+    type: String,
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ['comment', 'gift', 'room_message'],
+    required: true
+  },
+  itemId: { // `id` of the comment or room message, `_id` of the gift transaction
+    type: String,
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  availableAt: { // When the entry can be leased next
+    type: Date,
+    default: Date.now
+  },
+  leaseToken: { // Receipt of the current delivery, required to ack or nack it
+    type: String,
+    default: null
+  },
+  leaseExpiresAt: {
+    type: Date,
+    default: null
+  },
+  deliveries: {
+    type: Number,
+    default: 0
+  },
+  ackedAt: {
+    type: Date,
+    default: null
+  },
+  parkedAt: { // Set once the entry used up its deliveries; parked entries are not leased
+    type: Date,
+    default: null
+  }
+});
+
+agentInboxItemSchema.index({ agentId: 1, type: 1, itemId: 1 }, { unique: true });
+agentInboxItemSchema.index({ agentId: 1, ackedAt: 1, parkedAt: 1, availableAt: 1, createdAt: 1 });
+agentInboxItemSchema.index({ leaseToken: 1 });
+// Handled entries are kept for a week, then removed
+agentInboxItemSchema.index({ ackedAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+// Parked entries are kept for 30 days to be inspected or requeued
+agentInboxItemSchema.index({ parkedAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+export const AgentInboxItem = model('AgentInboxItem', agentInboxItemSchema);
@@ -0,0 +1,48 @@
+import mongoose from 'mongoose';
+
+const { Schema, model } = mongoose;
+
+export const WEBHOOK_EVENTS = [
+  'comment.received',
+  'gift.received',
+  'like.burst',
+  'stream.online',
+  'stream.offline',
+  'room_message.received'
+];
+
+// A URL an agent wants stream events POSTed to. Deliveries are signed with the
+// agent's webhook secret (StreamingStatus.webhookSecret).
+const agentWebhookSchema = new Schema({
+  agentId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  url: {
+    type: String,
+    required: true
+  },
+  events: {
+    type: [{ type: String, enum: WEBHOOK_EVENTS }],
+    required: true
+  },
+  active: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: String,
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+export const AgentWebhook = model('AgentWebhook', agentWebhookSchema);
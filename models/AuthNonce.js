@@ -0,0 +1,33 @@
+import mongoose from 'mongoose';
+
+const { Schema, model } = mongoose;
+
+// Single-use challenges that signed web3Auth messages have to embed
+const authNonceSchema = new Schema({
+  nonce: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  publicKey: {
+    type: String,
+    required: true
+  },
+  consumedAt: {
+    type: Date,
+    default: null
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+});
+
+// Let MongoDB drop challenges once they can no longer be used
+authNonceSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const AuthNonce = model('AuthNonce', authNonceSchema);
@@ -0,0 +1,50 @@
+import mongoose from 'mongoose';
+
+const { Schema, model } = mongoose;
+
+// Bans and timeouts of a wallet, either in one agent's chat or (agentId null) everywhere
+const chatSanctionSchema = new Schema({
+  publicKey: {
+    type: String,
+    required: true,
+    index: true
+  },
+  agentId: {
+    type: String,
+    default: null,
+    index: true
+  },
+  type: {
+    type: String,
+    enum: ['ban', 'timeout'],
+    required: true
+  },
+  reason: {
+    type: String,
+    required: false
+  },
+  createdBy: {
+    type: String,
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: { // null for permanent bans
+    type: Date,
+    default: null
+  },
+  liftedAt: {
+    type: Date,
+    default: null
+  },
+  liftedBy: {
+    type: String,
+    required: false
+  }
+});
+
+chatSanctionSchema.index({ publicKey: 1, agentId: 1, liftedAt: 1 });
+
+export const ChatSanction = model('ChatSanction', chatSanctionSchema);
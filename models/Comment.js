@@ -18,6 +18,19 @@ const CommentSchema = new mongoose.Schema({
     type: String,
     required: true
   },
+  parentId: { // `id` of the comment or AI response this comment replies to
+    type: String,
+    default: null,
+    index: true
+  },
+  mentions: { // Public keys of the users @mentioned in the message
+    type: [String],
+    default: []
+  },
+  addressesAgent: { // Mentions the agent or replies to one of its responses
+    type: Boolean,
+    default: false
+  },
   createdAt: {
     type: Date,
     default: Date.now
@@ -33,9 +46,28 @@ const CommentSchema = new mongoose.Schema({
   readByAgent: {
     type: Boolean,
     default: false
+  },
+  deletedAt: { // Set when a moderator removes the comment
+    type: Date,
+    default: null
+  },
+  deletedBy: {
+    type: String,
+    required: false
+  },
+  heldForReview: { // Caught by the agent's word filter in review mode, hidden until approved
+    type: Boolean,
+    default: false
   }
 });
 
+// Per-agent full-text search over chat
+CommentSchema.index({ agentId: 1, message: 'text' });
+// Replies, reactions and moderation find comments by agent and `id`, which the server generates
+CommentSchema.index({ agentId: 1, id: 1 }, { unique: true });
+// Per-agent chat over time, for history, sessions and analytics
+CommentSchema.index({ agentId: 1, createdAt: -1 });
+
 // Virtual population for user profile data
 CommentSchema.virtual('userProfile', {
   ref: 'UserProfile',
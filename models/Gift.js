@@ -0,0 +1,48 @@
+import mongoose from 'mongoose';
+
+const { Schema, model } = mongoose;
+
+// Server-side gift catalog, the only source of truth for gift prices
+const giftSchema = new Schema({
+  name: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  icon: {
+    type: String,
+    required: true
+  },
+  coins: { // Price of a single gift, in whole tokens, free gifts can't be verified on-chain
+    type: Number,
+    required: true,
+    validate: {
+      validator: (value) => value > 0,
+      message: 'coins must be a positive number'
+    }
+  },
+  isActive: {
+    type: Boolean,
+    default: true,
+    index: true
+  },
+  sortOrder: {
+    type: Number,
+    default: 0
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+giftSchema.pre('save', function(next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+export const Gift = model('Gift', giftSchema);
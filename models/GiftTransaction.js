@@ -17,6 +17,12 @@ const giftTransactionSchema = new Schema({
     type: String,
     required: true
   },
+  giftId: { // Catalog entry the gift was priced from
+    type: Schema.Types.ObjectId,
+    ref: 'Gift',
+    required: true,
+    index: true
+  },
   giftName: {
     type: String,
     required: true
@@ -31,6 +37,14 @@ const giftTransactionSchema = new Schema({
     required: true,
     min: 0
   },
+  mintAddress: { // Token the gift was paid in
+    type: String,
+    required: false
+  },
+  tokensTotal: { // Whole tokens paid, coinsTotal at the agent's price for the mint
+    type: Number,
+    required: false
+  },
   txHash: {
     type: String,
     required: true,
@@ -63,6 +77,7 @@ const giftTransactionSchema = new Schema({
 // Create indexes
 giftTransactionSchema.index({ senderPublicKey: 1 });
 giftTransactionSchema.index({ recipientAgentId: 1 });
+giftTransactionSchema.index({ recipientAgentId: 1, createdAt: -1 });
 giftTransactionSchema.index({ createdAt: 1 });
 giftTransactionSchema.index({ txHash: 1 }, { unique: true });
 giftTransactionSchema.index({ readByAgent: 1 });
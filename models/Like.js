@@ -22,4 +22,7 @@ LikeSchema.index({ user: 1, agentId: 1 }, {
   partialFilterExpression: { user: { $exists: true } }
 });
 
+// Likes per agent over time, for sessions and analytics
+LikeSchema.index({ agentId: 1, createdAt: -1 });
+
 module.exports = mongoose.model('Like', LikeSchema);
\ No newline at end of file
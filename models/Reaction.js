@@ -0,0 +1,41 @@
+import mongoose from 'mongoose';
+
+const { Schema, model } = mongoose;
+
+// Emoji viewers can react to chat lines and agent responses with
+export const REACTION_EMOJIS = ['❤️', '😂', '😮', '😢', '🔥', '👍', '👎', '💯'];
+
+// One viewer's emoji on one comment or AI response, referenced by its `id`
+const reactionSchema = new Schema({
+  messageId: {
+    type: String,
+    required: true
+  },
+  messageType: {
+    type: String,
+    enum: ['comment', 'ai_response'],
+    required: true
+  },
+  agentId: {
+    type: String,
+    required: true
+  },
+  publicKey: {
+    type: String,
+    required: true
+  },
+  emoji: {
+    type: String,
+    enum: REACTION_EMOJIS,
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+reactionSchema.index({ messageId: 1, publicKey: 1, emoji: 1 }, { unique: true });
+reactionSchema.index({ agentId: 1, messageType: 1, createdAt: -1 });
+
+export const Reaction = model('Reaction', reactionSchema);
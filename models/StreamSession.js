@@ -0,0 +1,74 @@
+import mongoose from 'mongoose';
+
+const { Schema, model } = mongoose;
+
+// One live stream of an agent, from going online to going offline.
+// Totals are filled in when the session closes; while it is open they are computed on read.
+const streamSessionSchema = new Schema({
+  agentId: {
+    type: String,
+    required: true
+  },
+  title: {
+    type: String,
+    default: null
+  },
+  startedAt: {
+    type: Date,
+    required: true
+  },
+  endedAt: { // null while the stream is live
+    type: Date,
+    default: null
+  },
+  endReason: {
+    type: String,
+    enum: ['offline', 'heartbeat_timeout', 'restarted', null],
+    default: null
+  },
+  durationSeconds: {
+    type: Number,
+    default: 0
+  },
+  peakViewers: {
+    type: Number,
+    default: 0
+  },
+  viewerSum: { // Sum of the viewer samples, averageViewers = viewerSum / viewerSamples
+    type: Number,
+    default: 0
+  },
+  viewerSamples: {
+    type: Number,
+    default: 0
+  },
+  averageViewers: {
+    type: Number,
+    default: 0
+  },
+  likes: {
+    type: Number,
+    default: 0
+  },
+  comments: {
+    type: Number,
+    default: 0
+  },
+  gifts: { // Gift transactions, not individual gift items
+    type: Number,
+    default: 0
+  },
+  coins: {
+    type: Number,
+    default: 0
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+streamSessionSchema.index({ agentId: 1, createdAt: -1, _id: -1 });
+streamSessionSchema.index({ agentId: 1, endedAt: 1 });
+
+export const StreamSession = model('StreamSession', streamSessionSchema);
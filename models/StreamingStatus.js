@@ -158,6 +158,42 @@ const StreamingStatusSchema = new mongoose.Schema({
     type: String,
     required: false
   },
+  rateLimits: { // Per-agent overrides of the viewer action rate limits, keyed by action then scope
+    type: mongoose.Schema.Types.Mixed,
+    required: false
+  },
+  webhookSecret: { // HMAC key signing this agent's webhook deliveries, never returned by default
+    type: String,
+    select: false
+  },
+  scoringWeights: { // Per-agent weights of the comment priority scorers, keyed by scorer name
+    type: mongoose.Schema.Types.Mixed,
+    required: false
+  },
+  wordFilter: { // Per-agent chat word filter, on top of the global word lists
+    mode: {
+      type: String,
+      enum: ['mask', 'reject', 'review'],
+      default: 'mask'
+    },
+    allow: {
+      type: [String],
+      default: []
+    },
+    deny: {
+      type: [String],
+      default: []
+    }
+  },
+  acceptedMints: { // SPL token mints this agent accepts gifts in, empty means AIKO only
+    type: [String],
+    default: []
+  },
+  mintRates: { // Whole tokens of each accepted mint one catalog coin costs, AIKO defaults to 1
+    type: Map,
+    of: Number,
+    default: {}
+  },
   creator: {
     username: String,
     title: String,
@@ -169,7 +205,7 @@ const StreamingStatusSchema = new mongoose.Schema({
     required: false
   },
   sceneConfigs: [SceneConfigSchema],
-  stats: {
+  stats: { // Activity counters, bumped as it happens and reconciled periodically (utils/streamStats.ts)
     likes: {
       type: Number,
       default: 0
@@ -178,6 +214,14 @@ const StreamingStatusSchema = new mongoose.Schema({
       type: Number,
       default: 0
     },
+    gifts: {
+      type: Number,
+      default: 0
+    },
+    coins: {
+      type: Number,
+      default: 0
+    },
     bookmarks: {
       type: Number,
       default: 0
@@ -219,6 +263,10 @@ const StreamingStatusSchema = new mongoose.Schema({
     type: String,
     required: false
   },
+  moderators: { // Wallets the owner delegated chat moderation to
+    type: [String],
+    default: []
+  },
   isDegenSpartanAI: {
     type: Boolean,
   },
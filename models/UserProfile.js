@@ -12,10 +12,31 @@ const userProfileSchema = new Schema({
     type: String,
     required: true
   },
+  handleNormalized: { // Lowercased handle, keeps handles unique regardless of case
+    type: String,
+    unique: true,
+    sparse: true
+  },
+  handleRenameRequired: { // Legacy handle clashed with an older profile's and was replaced by a placeholder
+    type: Boolean,
+    default: false
+  },
   pfp: {
     type: String,
     required: true
+  },
+  verified: { // Verified badge, only admins can grant it
+    type: Boolean,
+    default: false
+  },
+  verifiedAt: {
+    type: Date,
+    required: false
+  },
+  verifiedBy: {
+    type: String,
+    required: false
   }
 });
 
-export const UserProfile = model('UserProfile', userProfileSchema); 
\ No newline at end of file
+export const UserProfile = model('UserProfile', userProfileSchema);
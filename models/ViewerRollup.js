@@ -0,0 +1,35 @@
+import mongoose from 'mongoose';
+
+const { Schema, model } = mongoose;
+
+export const VIEWER_ROLLUP_BUCKET_SECONDS = 5 * 60;
+export const VIEWER_ROLLUP_RETENTION_SECONDS = 90 * 24 * 60 * 60;
+
+// Viewer samples of one agent downsampled to a 5 minute bucket
+const viewerRollupSchema = new Schema({
+  agentId: {
+    type: String,
+    required: true
+  },
+  bucket: { // Start of the bucket
+    type: Date,
+    required: true
+  },
+  samples: {
+    type: Number,
+    default: 0
+  },
+  sum: { // Sum of the sampled counts, average = sum / samples
+    type: Number,
+    default: 0
+  },
+  max: {
+    type: Number,
+    default: 0
+  }
+});
+
+viewerRollupSchema.index({ agentId: 1, bucket: 1 }, { unique: true });
+viewerRollupSchema.index({ bucket: 1 }, { expireAfterSeconds: VIEWER_ROLLUP_RETENTION_SECONDS });
+
+export const ViewerRollup = model('ViewerRollup', viewerRollupSchema);
@@ -0,0 +1,32 @@
+import mongoose from 'mongoose';
+
+const { Schema, model } = mongoose;
+
+// Raw samples are kept this long; older windows are served from ViewerRollup
+export const VIEWER_SAMPLE_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+
+// Viewer count of one agent at one moment, stored in a MongoDB time-series collection
+const viewerSampleSchema = new Schema({
+  agentId: {
+    type: String,
+    required: true
+  },
+  timestamp: {
+    type: Date,
+    required: true
+  },
+  viewers: {
+    type: Number,
+    required: true
+  }
+}, {
+  timeseries: {
+    timeField: 'timestamp',
+    metaField: 'agentId',
+    granularity: 'seconds'
+  },
+  expireAfterSeconds: VIEWER_SAMPLE_RETENTION_SECONDS,
+  versionKey: false
+});
+
+export const ViewerSample = model('ViewerSample', viewerSampleSchema);
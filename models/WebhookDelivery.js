@@ -0,0 +1,64 @@
+import mongoose from 'mongoose';
+
+const { Schema, model } = mongoose;
+
+// One event sent (or being retried) to one webhook
+const webhookDeliverySchema = new Schema({
+  webhookId: {
+    type: Schema.Types.ObjectId,
+    ref: 'AgentWebhook',
+    required: true
+  },
+  agentId: {
+    type: String,
+    required: true
+  },
+  event: {
+    type: String,
+    required: true
+  },
+  payload: { // The JSON body, without the signature headers
+    type: Schema.Types.Mixed,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'succeeded', 'failed'],
+    default: 'pending'
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  nextAttemptAt: {
+    type: Date,
+    default: Date.now
+  },
+  lastAttemptAt: {
+    type: Date,
+    default: null
+  },
+  responseStatus: {
+    type: Number,
+    default: null
+  },
+  error: {
+    type: String,
+    default: null
+  },
+  deliveredAt: {
+    type: Date,
+    default: null
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+webhookDeliverySchema.index({ agentId: 1, createdAt: -1, _id: -1 });
+// Delivery logs are kept for 30 days
+webhookDeliverySchema.index({ createdAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+export const WebhookDelivery = model('WebhookDelivery', webhookDeliverySchema);
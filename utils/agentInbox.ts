@@ -0,0 +1,197 @@
+import { randomBytes } from 'crypto';
+import { AgentInboxItem } from '../models/AgentInboxItem.js';
+
+/**
+ * Leased work queue for agent runtimes.
+ *
+ * Every comment, gift or room message an agent should react to is enqueued
+ * once per agent. A worker leases a batch, which hides those entries from other
+ * workers for the visibility timeout, and then acks what it handled or nacks
+ * what it wants retried. Leases that are neither acked nor nacked in time
+ * expire and the entries are delivered again. An entry that has been delivered
+ * `maxInboxDeliveries()` times without an ack is parked instead of being
+ * retried, and stays parked until it is requeued.
+ */
+
+export type InboxItemType = 'comment' | 'gift' | 'room_message';
+
+export const INBOX_ITEM_TYPES: InboxItemType[] = ['comment', 'gift', 'room_message'];
+
+export const DEFAULT_VISIBILITY_TIMEOUT_SECONDS = 60;
+export const MAX_VISIBILITY_TIMEOUT_SECONDS = 15 * 60;
+
+/**
+ * Deliveries after which an entry that still isn't acked is parked.
+ */
+export const maxInboxDeliveries = () =>
+  Number(process.env.INBOX_MAX_DELIVERIES) || 10;
+
+export type InboxLease = {
+  receipt: string;
+  type: InboxItemType;
+  itemId: string;
+  createdAt: Date;
+  deliveries: number;
+  leaseExpiresAt: Date;
+};
+
+export type ParkedInboxItem = {
+  type: InboxItemType;
+  itemId: string;
+  createdAt: Date;
+  deliveries: number;
+  parkedAt: Date;
+};
+
+export type InboxSettleResult = {
+  settled: string[];
+  /** Receipts that are unknown, already settled, or whose lease was handed to another worker */
+  failed: string[];
+  /** The settled entries, so callers can update the source items */
+  entries: { type: InboxItemType; itemId: string }[];
+};
+
+/**
+ * Queues an item for each agent. Enqueueing the same item twice is a no-op.
+ */
+export async function enqueueInboxItem(agentIds: string[], type: InboxItemType, itemId: string, createdAt: Date = new Date()) {
+  const recipients = [...new Set(agentIds.filter(Boolean))];
+  if (!recipients.length) {
+    return;
+  }
+  await AgentInboxItem.bulkWrite(
+    recipients.map(agentId => ({
+      updateOne: {
+        filter: { agentId, type, itemId },
+        update: { $setOnInsert: { agentId, type, itemId, createdAt, availableAt: createdAt } },
+        upsert: true
+      }
+    })),
+    { ordered: false }
+  );
+}
+
+/**
+ * Leases up to `limit` of the oldest available entries, one atomic update each,
+ * so concurrent workers never receive the same entry. Entries whose last
+ * allowed delivery expired without an ack are parked first.
+ */
+export async function leaseInboxItems(
+  agentId: string,
+  { limit, visibilityTimeoutSeconds, types }: { limit: number; visibilityTimeoutSeconds: number; types: InboxItemType[] }
+): Promise<InboxLease[]> {
+  const maxDeliveries = maxInboxDeliveries();
+  await AgentInboxItem.updateMany(
+    { agentId, ackedAt: null, parkedAt: null, deliveries: { $gte: maxDeliveries }, availableAt: { $lte: new Date() } },
+    { $set: { parkedAt: new Date(), leaseToken: null, leaseExpiresAt: null } }
+  );
+
+  const leases: InboxLease[] = [];
+  for (let i = 0; i < limit; i++) {
+    const now = new Date();
+    const leaseExpiresAt = new Date(now.getTime() + visibilityTimeoutSeconds * 1000);
+    const entry = await AgentInboxItem.findOneAndUpdate(
+      {
+        agentId,
+        ackedAt: null,
+        parkedAt: null,
+        deliveries: { $lt: maxDeliveries },
+        availableAt: { $lte: now },
+        type: { $in: types }
+      },
+      {
+        $set: { leaseToken: randomBytes(16).toString('hex'), leaseExpiresAt, availableAt: leaseExpiresAt },
+        $inc: { deliveries: 1 }
+      },
+      { sort: { createdAt: 1 }, new: true }
+    );
+    if (!entry) {
+      break;
+    }
+    leases.push({
+      receipt: entry.leaseToken,
+      type: entry.type as InboxItemType,
+      itemId: entry.itemId,
+      createdAt: entry.createdAt,
+      deliveries: entry.deliveries,
+      leaseExpiresAt
+    });
+  }
+  return leases;
+}
+
+async function settle(agentId: string, receipts: string[], update: Record<string, any> | Record<string, any>[]): Promise<InboxSettleResult> {
+  const result: InboxSettleResult = { settled: [], failed: [], entries: [] };
+  for (const receipt of new Set(receipts)) {
+    const entry = await AgentInboxItem.findOneAndUpdate(
+      { agentId, leaseToken: receipt, ackedAt: null },
+      update
+    );
+    if (entry) {
+      result.settled.push(receipt);
+      result.entries.push({ type: entry.type as InboxItemType, itemId: entry.itemId });
+    } else {
+      result.failed.push(receipt);
+    }
+  }
+  return result;
+}
+
+/**
+ * Marks leased entries as handled.
+ */
+export async function ackInboxItems(agentId: string, receipts: string[]) {
+  return settle(agentId, receipts, { $set: { ackedAt: new Date(), leaseToken: null, leaseExpiresAt: null } });
+}
+
+/**
+ * Gives leased entries back, to be delivered again after `delaySeconds`.
+ * Entries that used up their deliveries are parked instead.
+ */
+export async function nackInboxItems(agentId: string, receipts: string[], delaySeconds = 0) {
+  const now = new Date();
+  return settle(agentId, receipts, [{
+    $set: {
+      availableAt: new Date(now.getTime() + delaySeconds * 1000),
+      parkedAt: { $cond: [{ $gte: ['$deliveries', maxInboxDeliveries()] }, now, null] },
+      leaseToken: null,
+      leaseExpiresAt: null
+    }
+  }]);
+}
+
+/**
+ * Parked entries, most recently parked first.
+ */
+export async function listParkedInboxItems(agentId: string, limit: number): Promise<ParkedInboxItem[]> {
+  const entries = await AgentInboxItem.find({ agentId, ackedAt: null, parkedAt: { $ne: null } })
+    .sort({ parkedAt: -1 })
+    .limit(limit);
+  return entries.map(entry => ({
+    type: entry.type as InboxItemType,
+    itemId: entry.itemId,
+    createdAt: entry.createdAt,
+    deliveries: entry.deliveries,
+    parkedAt: entry.parkedAt
+  }));
+}
+
+/**
+ * Puts parked entries back in the queue with their delivery count reset.
+ * Returns how many were requeued.
+ */
+export async function requeueInboxItems(agentId: string, items: { type: InboxItemType; itemId: string }[]) {
+  if (!items.length) {
+    return 0;
+  }
+  const { modifiedCount } = await AgentInboxItem.updateMany(
+    {
+      agentId,
+      ackedAt: null,
+      parkedAt: { $ne: null },
+      $or: items.map(({ type, itemId }) => ({ type, itemId }))
+    },
+    { $set: { parkedAt: null, deliveries: 0, availableAt: new Date() } }
+  );
+  return modifiedCount;
+}
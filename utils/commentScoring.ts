@@ -0,0 +1,185 @@
+/**
+ * Ranks viewer comments by how much the agent should want to answer them.
+ *
+ * The score is a weighted sum of scorers. Each scorer looks at one signal and
+ * returns a value between 0 and 1; its weight (per agent, falling back to the
+ * scorer's default) decides how much that signal counts, and may be negative
+ * to push comments down. Scorers read from a context built once per batch, so
+ * they stay synchronous and cheap.
+ */
+
+export type ScorableComment = {
+  id: string;
+  user: string;
+  message: string;
+  createdAt: Date;
+  addressesAgent?: boolean;
+};
+
+export type CommentScoringContext = {
+  now: Date;
+  /** Coins each user gifted the agent recently */
+  giftCoinsByUser: Map<string, number>;
+  /** Likes each user sent the agent recently */
+  likesByUser: Map<string, number>;
+  /** When each user first commented in the agent's chat */
+  firstCommentAtByUser: Map<string, Date>;
+  /** Comments repeating an earlier message in the batch */
+  duplicateIds: Set<string>;
+};
+
+export type CommentScorer = {
+  name: string;
+  description: string;
+  defaultWeight: number;
+  score: (comment: ScorableComment, context: CommentScoringContext) => number;
+};
+
+export type ScoreBreakdown = Record<string, { value: number; weight: number; contribution: number }>;
+
+export type RankedComment<T> = {
+  comment: T;
+  score: number;
+  breakdown: ScoreBreakdown;
+};
+
+// Coins at which the (log scale) gift signal saturates
+const GIFT_COINS_CAP = 1000;
+// Likes at which the like signal saturates
+const LIKES_CAP = 20;
+// Seconds for a comment's freshness to halve
+const FRESHNESS_HALF_LIFE_SECONDS = 120;
+
+const COMMENT_SCORERS: CommentScorer[] = [
+  {
+    name: 'gifts',
+    description: `Coins the author gifted the agent in the last 24 hours, log scale, full at ${GIFT_COINS_CAP}`,
+    defaultWeight: 3,
+    score: (comment, { giftCoinsByUser }) => {
+      const coins = giftCoinsByUser.get(comment.user) || 0;
+      return Math.min(1, Math.log10(1 + coins) / Math.log10(1 + GIFT_COINS_CAP));
+    }
+  },
+  {
+    name: 'likes',
+    description: `Likes the author sent the agent in the last hour, full at ${LIKES_CAP}`,
+    defaultWeight: 1,
+    score: (comment, { likesByUser }) => Math.min(1, (likesByUser.get(comment.user) || 0) / LIKES_CAP)
+  },
+  {
+    name: 'firstTime',
+    description: "1 for the author's first comment in the agent's chat",
+    defaultWeight: 1.5,
+    score: (comment, { firstCommentAtByUser }) => {
+      const firstCommentAt = firstCommentAtByUser.get(comment.user);
+      return firstCommentAt && comment.createdAt.getTime() <= firstCommentAt.getTime() ? 1 : 0;
+    }
+  },
+  {
+    name: 'mention',
+    description: '1 when the comment mentions the agent or replies to one of its responses',
+    defaultWeight: 2,
+    score: (comment) => (comment.addressesAgent ? 1 : 0)
+  },
+  {
+    name: 'freshness',
+    description: `Halves every ${FRESHNESS_HALF_LIFE_SECONDS} seconds after the comment was posted`,
+    defaultWeight: 2,
+    score: (comment, { now }) => {
+      const ageSeconds = Math.max(0, (now.getTime() - comment.createdAt.getTime()) / 1000);
+      return Math.pow(0.5, ageSeconds / FRESHNESS_HALF_LIFE_SECONDS);
+    }
+  },
+  {
+    name: 'duplicate',
+    description: '1 when the same message was already posted earlier in the batch',
+    defaultWeight: -4,
+    score: (comment, { duplicateIds }) => (duplicateIds.has(comment.id) ? 1 : 0)
+  }
+];
+
+/**
+ * Adds a scorer to the pipeline, replacing any scorer with the same name.
+ */
+export function registerCommentScorer(scorer: CommentScorer) {
+  const index = COMMENT_SCORERS.findIndex(existing => existing.name === scorer.name);
+  if (index >= 0) {
+    COMMENT_SCORERS[index] = scorer;
+  } else {
+    COMMENT_SCORERS.push(scorer);
+  }
+}
+
+export function listCommentScorers() {
+  return COMMENT_SCORERS.map(({ name, description, defaultWeight }) => ({ name, description, defaultWeight }));
+}
+
+/**
+ * Returns an error message for weights that name unknown scorers or are not
+ * finite numbers between -100 and 100.
+ */
+export function validateScoringWeights(weights: any): string | null {
+  if (!weights || typeof weights !== 'object' || Array.isArray(weights)) {
+    return 'weights must be an object';
+  }
+  for (const [name, weight] of Object.entries(weights)) {
+    if (!COMMENT_SCORERS.some(scorer => scorer.name === name)) {
+      return `Unknown scorer: ${name}`;
+    }
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || Math.abs(weight) > 100) {
+      return `Weight for ${name} must be a number between -100 and 100`;
+    }
+  }
+  return null;
+}
+
+export function resolveScoringWeights(overrides?: Record<string, number> | null): Record<string, number> {
+  return Object.fromEntries(
+    COMMENT_SCORERS.map(scorer => [scorer.name, overrides?.[scorer.name] ?? scorer.defaultWeight])
+  );
+}
+
+const normalizeMessage = (message: string) =>
+  message.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/**
+ * Ids of comments whose text repeats an older comment of the batch, ignoring
+ * case, punctuation and spacing. The oldest copy is not a duplicate.
+ */
+export function findDuplicateComments(comments: ScorableComment[]): Set<string> {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  const oldestFirst = [...comments].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  for (const comment of oldestFirst) {
+    const text = normalizeMessage(comment.message);
+    if (seen.has(text)) {
+      duplicates.add(comment.id);
+    }
+    seen.add(text);
+  }
+  return duplicates;
+}
+
+/**
+ * Scores every comment and returns them highest score first, newest first on ties.
+ */
+export function rankComments<T extends ScorableComment>(
+  comments: T[],
+  context: CommentScoringContext,
+  weights: Record<string, number>
+): RankedComment<T>[] {
+  return comments
+    .map(comment => {
+      const breakdown: ScoreBreakdown = {};
+      let score = 0;
+      for (const scorer of COMMENT_SCORERS) {
+        const value = scorer.score(comment, context);
+        const weight = weights[scorer.name] ?? scorer.defaultWeight;
+        const contribution = value * weight;
+        breakdown[scorer.name] = { value, weight, contribution };
+        score += contribution;
+      }
+      return { comment, score, breakdown };
+    })
+    .sort((a, b) => b.score - a.score || b.comment.createdAt.getTime() - a.comment.createdAt.getTime());
+}
@@ -0,0 +1,163 @@
+import type { Connection, ParsedInstruction, ParsedTransactionWithMeta, PartiallyDecodedInstruction } from '@solana/web3.js';
+
+/**
+ * The only part of a Solana `Connection` the verifier needs. Anything that
+ * implements `getParsedTransaction` (a connection to a local validator, or a
+ * fake returning canned transactions) can be passed in instead.
+ */
+export type ParsedTransactionSource = Pick<Connection, 'getParsedTransaction'>;
+
+/**
+ * What the client claims happened on-chain when it emits `new_gift`.
+ * `tokensTotal` is expressed in whole tokens, not in raw base units: the gift's
+ * price in coins times what one coin costs in that token.
+ */
+export interface GiftTransferClaim {
+  txHash: string;
+  senderPublicKey: string;
+  recipientWallet: string;
+  mintAddress: string;
+  tokensTotal: number;
+}
+
+export interface GiftVerificationResult {
+  success: boolean;
+  error?: string;
+  /** Raw amount (base units) actually transferred to the recipient */
+  amount?: bigint;
+  decimals?: number;
+}
+
+interface VerifyGiftOptions {
+  /** How many times to look the transaction up before giving up */
+  attempts?: number;
+  /** Delay between lookups, in milliseconds */
+  retryDelayMs?: number;
+}
+
+type TokenAccountInfo = { mint: string; owner?: string; decimals: number };
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function fetchTransaction(
+  connection: ParsedTransactionSource,
+  txHash: string,
+  { attempts = 3, retryDelayMs = 1500 }: VerifyGiftOptions
+): Promise<ParsedTransactionWithMeta | null> {
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    const transaction = await connection.getParsedTransaction(txHash, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0
+    });
+    if (transaction) {
+      return transaction;
+    }
+    // The client usually emits right after sending, so give the RPC a moment to catch up
+    if (attempt < attempts) {
+      await sleep(retryDelayMs);
+    }
+  }
+  return null;
+}
+
+// Map every token account touched by the transaction to its mint and owner
+function collectTokenAccounts(transaction: ParsedTransactionWithMeta): Map<string, TokenAccountInfo> {
+  const accountKeys = transaction.transaction.message.accountKeys;
+  const balances = [
+    ...(transaction.meta?.preTokenBalances || []),
+    ...(transaction.meta?.postTokenBalances || [])
+  ];
+
+  const accounts = new Map<string, TokenAccountInfo>();
+  for (const balance of balances) {
+    const pubkey = accountKeys[balance.accountIndex]?.pubkey.toString();
+    if (pubkey) {
+      accounts.set(pubkey, {
+        mint: balance.mint,
+        owner: balance.owner,
+        decimals: balance.uiTokenAmount.decimals
+      });
+    }
+  }
+  return accounts;
+}
+
+// Flatten top-level and inner (CPI) instructions, keeping only parsed SPL token transfers
+function collectTokenTransfers(transaction: ParsedTransactionWithMeta): ParsedInstruction[] {
+  const instructions: (ParsedInstruction | PartiallyDecodedInstruction)[] = [
+    ...transaction.transaction.message.instructions,
+    ...(transaction.meta?.innerInstructions || []).flatMap(inner => inner.instructions)
+  ];
+
+  return instructions.filter((instruction): instruction is ParsedInstruction =>
+    'parsed' in instruction &&
+    instruction.program === 'spl-token' &&
+    ['transfer', 'transferChecked'].includes(instruction.parsed?.type)
+  );
+}
+
+/**
+ * Looks up `claim.txHash` on-chain and checks that it is a successful SPL
+ * token transfer of `claim.tokensTotal` tokens of `claim.mintAddress` signed by
+ * `claim.senderPublicKey` and landing in a token account owned by
+ * `claim.recipientWallet`. Multiple matching transfers in the same
+ * transaction are summed.
+ */
+export async function verifyGiftTransaction(
+  connection: ParsedTransactionSource,
+  claim: GiftTransferClaim,
+  options: VerifyGiftOptions = {}
+): Promise<GiftVerificationResult> {
+  try {
+    if (!claim.txHash || !claim.senderPublicKey || !claim.recipientWallet) {
+      return { success: false, error: 'Missing txHash, senderPublicKey or recipientWallet' };
+    }
+    if (typeof claim.tokensTotal !== 'number' || !(claim.tokensTotal > 0)) {
+      return { success: false, error: 'tokensTotal must be a positive number' };
+    }
+
+    const transaction = await fetchTransaction(connection, claim.txHash, options);
+    if (!transaction || !transaction.meta) {
+      return { success: false, error: 'Transaction not found' };
+    }
+    if (transaction.meta.err) {
+      return { success: false, error: 'Transaction failed on-chain' };
+    }
+
+    const tokenAccounts = collectTokenAccounts(transaction);
+    let amount = BigInt(0);
+    let decimals: number | undefined;
+
+    for (const instruction of collectTokenTransfers(transaction)) {
+      const info = instruction.parsed.info;
+      const destination = tokenAccounts.get(info.destination);
+      const mint = info.mint || destination?.mint;
+      const authority = info.authority || info.multisigAuthority;
+
+      if (
+        mint !== claim.mintAddress ||
+        destination?.owner !== claim.recipientWallet ||
+        authority !== claim.senderPublicKey
+      ) {
+        continue;
+      }
+
+      amount += BigInt(info.tokenAmount?.amount ?? info.amount);
+      decimals = info.tokenAmount?.decimals ?? destination.decimals;
+    }
+
+    if (decimals === undefined) {
+      return { success: false, error: 'No matching token transfer found in transaction' };
+    }
+
+    const expectedAmount = BigInt(Math.floor(claim.tokensTotal * Math.pow(10, decimals)));
+    if (amount !== expectedAmount) {
+      return { success: false, error: 'Transferred amount does not match the gift price' };
+    }
+
+    return { success: true, amount, decimals };
+  } catch (error) {
+    console.error('Error verifying gift transaction:', error);
+    return { success: false, error: 'Failed to verify transaction' };
+  }
+}
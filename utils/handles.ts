@@ -0,0 +1,43 @@
+/**
+ * Handle normalization and reserved-name matching for user profiles.
+ */
+
+// Digits, symbols and letters commonly used to imitate other letters in a handle. `l` and `|`
+// fold into `i` because they look alike in many fonts (`Alko` passes for `Aiko`).
+const LOOKALIKES: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b',
+  'l': 'i', '|': 'i', '!': 'i', '$': 's'
+};
+
+const DEFAULT_RESERVED_HANDLES = ['admin', 'administrator', 'moderator', 'support', 'system', 'anonymous', 'aiko'];
+
+/**
+ * The form handles are stored and compared in for uniqueness.
+ */
+export function normalizeHandle(handle: string): string {
+  return handle.trim().toLowerCase();
+}
+
+/**
+ * A looser form used to compare handles against reserved names, so `A1ko`,
+ * `Alko`, `a_i_k_o` and `AIKO` all collide with `Aiko`. Symbols are folded
+ * before the rest is stripped.
+ */
+export function handleLookalikeKey(name: string): string {
+  return normalizeHandle(name)
+    .split('')
+    .map(char => LOOKALIKES[char] || char)
+    .join('')
+    .replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Protected names from `RESERVED_HANDLES` (comma-separated), or the defaults when unset.
+ */
+export function configuredReservedHandles(): string[] {
+  const configured = process.env.RESERVED_HANDLES;
+  if (!configured?.trim()) {
+    return DEFAULT_RESERVED_HANDLES;
+  }
+  return configured.split(',').map(name => name.trim()).filter(Boolean);
+}
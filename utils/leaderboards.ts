@@ -0,0 +1,124 @@
+import { UserProfile } from '../models/UserProfile.js';
+import { GiftTransaction } from '../models/GiftTransaction.js';
+import Comment from '../models/Comment.js';
+import Like from '../models/Like.js';
+import { TimeRange, timeRangeMatch } from './timeframes.ts';
+
+/**
+ * Top gifters, likers and commenters, for one agent or across all agents.
+ *
+ * Each board is one aggregation: the activity is grouped per wallet, ranked
+ * and joined with the wallets' profiles in the same pipeline.
+ */
+
+export type LeaderboardType = 'gifters' | 'likers' | 'commenters';
+
+export const LEADERBOARD_TYPES: LeaderboardType[] = ['gifters', 'likers', 'commenters'];
+
+export type LeaderboardQuery = {
+  type: LeaderboardType;
+  /** Omit for the platform-wide board */
+  agentId?: string | null;
+  range: TimeRange;
+  limit: number;
+  /** Users that never rank, such as the placeholder stored for anonymous activity */
+  excludeUsers?: string[];
+};
+
+export type LeaderboardEntry = {
+  rank: number;
+  publicKey: string;
+  handle: string | null;
+  pfp: string | null;
+  verified: boolean;
+  /** What the board is ranked by: coins for gifters, likes or comments otherwise */
+  score: number;
+  lastActiveAt: Date;
+  [metric: string]: any;
+};
+
+/**
+ * Pipeline stages adding `profile` ({ handle, pfp, verified } or null) for the wallet in `field`.
+ */
+export function profileLookupStages(field = '_id') {
+  return [
+    {
+      $lookup: {
+        from: UserProfile.collection.name,
+        localField: field,
+        foreignField: 'publicKey',
+        pipeline: [{ $project: { _id: 0, handle: 1, pfp: 1, verified: 1 } }],
+        as: 'profile'
+      }
+    },
+    { $set: { profile: { $first: '$profile' } } }
+  ];
+}
+
+const BOARDS: Record<LeaderboardType, {
+  model: any;
+  userField: string;
+  agentField: string;
+  match?: Record<string, any>;
+  metrics: Record<string, any>;
+  scoreField: string;
+}> = {
+  gifters: {
+    model: GiftTransaction,
+    userField: 'senderPublicKey',
+    agentField: 'recipientAgentId',
+    metrics: { totalCoins: { $sum: '$coinsTotal' }, totalGifts: { $sum: '$giftCount' } },
+    scoreField: 'totalCoins'
+  },
+  likers: {
+    model: Like,
+    userField: 'user',
+    agentField: 'agentId',
+    metrics: { likeCount: { $sum: 1 } },
+    scoreField: 'likeCount'
+  },
+  commenters: {
+    model: Comment,
+    userField: 'user',
+    agentField: 'agentId',
+    match: { deletedAt: null, heldForReview: { $ne: true } },
+    metrics: { commentCount: { $sum: 1 } },
+    scoreField: 'commentCount'
+  }
+};
+
+export async function leaderboard({ type, agentId, range, limit, excludeUsers = [] }: LeaderboardQuery): Promise<LeaderboardEntry[]> {
+  const board = BOARDS[type];
+  const rows = await board.model.aggregate([
+    {
+      $match: {
+        ...(agentId && { [board.agentField]: agentId }),
+        [board.userField]: { $exists: true, $nin: [null, ...excludeUsers] },
+        ...board.match,
+        ...timeRangeMatch(range)
+      }
+    },
+    {
+      $group: {
+        _id: `$${board.userField}`,
+        ...board.metrics,
+        lastActiveAt: { $max: '$createdAt' }
+      }
+    },
+    // Ties go to the most recently active
+    { $sort: { [board.scoreField]: -1, lastActiveAt: -1, _id: 1 } },
+    { $limit: limit },
+    ...profileLookupStages()
+  ]);
+
+  return rows.map(({ _id, profile, lastActiveAt, ...metrics }, index) => ({
+    rank: index + 1,
+    publicKey: _id,
+    handle: profile?.handle || null,
+    pfp: profile?.pfp || null,
+    verified: !!profile?.verified,
+    score: metrics[board.scoreField],
+    lastActiveAt,
+    ...metrics
+  }));
+}
@@ -0,0 +1,128 @@
+import mongoose from 'mongoose';
+
+/**
+ * Opaque cursors for newest-first lists ordered by `createdAt` then `_id`.
+ *
+ * A cursor points at the edge item of a page and says which way to read from
+ * it: `next` for older items, `prev` for newer ones. Because `_id` breaks ties
+ * between equal timestamps, pages neither skip nor repeat items when new ones
+ * are inserted while a client is paging.
+ */
+
+export type CursorDirection = 'next' | 'prev';
+
+export type Cursor = {
+  createdAt: Date;
+  id: string;
+  direction: CursorDirection;
+};
+
+export type CursorPagination = {
+  next: string | null;
+  prev: string | null;
+  hasMore: boolean;
+};
+
+type Paginatable = { createdAt: Date | string | number; _id?: any; id?: any };
+
+export const MAX_PAGE_SIZE = 100;
+
+export function pageSize(value: unknown, fallback: number): number {
+  return Math.min(Math.max(parseInt(value as string) || fallback, 1), MAX_PAGE_SIZE);
+}
+
+export function encodeCursor(createdAt: Date | string | number, id: any, direction: CursorDirection): string {
+  const payload = { t: new Date(createdAt).getTime(), i: String(id), d: direction };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Returns null for anything that is not a cursor produced by `encodeCursor`.
+ */
+export function decodeCursor(value: unknown): Cursor | null {
+  if (typeof value !== 'string' || !value) {
+    return null;
+  }
+  try {
+    const { t, i, d } = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (typeof t !== 'number' || !mongoose.isValidObjectId(i) || !['next', 'prev'].includes(d)) {
+      return null;
+    }
+    return { createdAt: new Date(t), id: i, direction: d };
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Query conditions selecting the items past the cursor, to merge into the list's filter.
+ */
+export function cursorFilter(cursor: Cursor | null): Record<string, any> {
+  if (!cursor) {
+    return {};
+  }
+  const op = cursor.direction === 'next' ? '$lt' : '$gt';
+  const id = new mongoose.Types.ObjectId(cursor.id);
+  return {
+    $or: [
+      { createdAt: { [op]: cursor.createdAt } },
+      { createdAt: cursor.createdAt, _id: { [op]: id } }
+    ]
+  };
+}
+
+/**
+ * Sort to read in: newest first, or oldest first when walking back towards newer items.
+ */
+export function cursorSort(cursor: Cursor | null): { createdAt: 1 | -1; _id: 1 | -1 } {
+  return cursor?.direction === 'prev' ? { createdAt: 1, _id: 1 } : { createdAt: -1, _id: -1 };
+}
+
+/**
+ * Orders items the way `cursorSort` does, for lists merged from several collections.
+ */
+export function compareByCursorOrder(cursor: Cursor | null, getId: (item: any) => any = item => item._id) {
+  const sign = cursor?.direction === 'prev' ? 1 : -1;
+  return (a: Paginatable, b: Paginatable) => {
+    const byDate = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+    const idA = String(getId(a));
+    const idB = String(getId(b));
+    // Hex ObjectIds of equal length sort like the ObjectIds themselves
+    return sign * (byDate || (idA < idB ? -1 : idA > idB ? 1 : 0));
+  };
+}
+
+/**
+ * Turns `limit + 1` items read with `cursorFilter`/`cursorSort` into a newest-first
+ * page plus the cursors around it. `next` is null once there is nothing older;
+ * `prev` stays set so clients can keep polling for items newer than what they have.
+ * The page keeps the caller's document type; untyped query results stay `any`.
+ */
+export function buildCursorPage<T extends Paginatable = any>(
+  items: T[],
+  limit: number,
+  cursor: Cursor | null,
+  getId: (item: T) => any = item => item._id
+): { items: T[]; pagination: CursorPagination } {
+  const readingBack = cursor?.direction === 'prev';
+  const hasMore = items.length > limit;
+  const page = items.slice(0, limit);
+  if (readingBack) {
+    page.reverse();
+  }
+
+  const first = page[0];
+  const last = page[page.length - 1];
+  // An empty page keeps the position the client asked from
+  const newest = first ? { createdAt: first.createdAt, id: getId(first) } : cursor;
+  const oldest = last ? { createdAt: last.createdAt, id: getId(last) } : cursor;
+
+  return {
+    items: page,
+    pagination: {
+      next: oldest && (readingBack || hasMore) ? encodeCursor(oldest.createdAt, oldest.id, 'next') : null,
+      prev: newest ? encodeCursor(newest.createdAt, newest.id, 'prev') : null,
+      hasMore
+    }
+  };
+}
@@ -0,0 +1,302 @@
+import { Filter } from 'bad-words';
+import * as badwordsList from 'badwords-list';
+
+/**
+ * What happens to a comment that contains a blocked word:
+ * - `mask` replaces the word with asterisks
+ * - `reject` refuses the comment
+ * - `review` stores it hidden until a moderator approves it
+ */
+export type WordFilterMode = 'mask' | 'reject' | 'review';
+
+export const WORD_FILTER_MODES: WordFilterMode[] = ['mask', 'reject', 'review'];
+
+export interface WordFilterConfig {
+  mode?: WordFilterMode;
+  /** Words allowed on top of the global allow list */
+  allow?: string[];
+  /** Words blocked on top of the global list */
+  deny?: string[];
+}
+
+export interface WordMatcher {
+  hasProfanity: (text: string) => boolean;
+  mask: (text: string) => string;
+}
+
+// Overly strict words from the default lists that are fine in chat
+const DEFAULT_ALLOWED_WORDS = [
+  'poop',
+  'gay',
+  'hell',
+  'damn',
+  'god',
+  'jesus',
+  'crap',
+  'darn',
+  'idiot',
+  'stupid',
+  'dumb',
+  'weird',
+  'sucks',
+  'wtf',
+  'omg',
+  'butt',
+  'fart',
+  'sexy',
+  'sex',
+  'hate',
+  'drunk',
+  'drugs',
+  'drug'
+];
+
+// Characters commonly swapped in for letters to dodge filters
+const LEET_SUBSTITUTES: Record<string, string> = {
+  a: '4@',
+  b: '8',
+  e: '3',
+  g: '9',
+  i: '1!|',
+  l: '1|',
+  o: '0',
+  s: '5$',
+  t: '7+'
+};
+
+const LEET_TO_LETTER: Record<string, string> = {
+  '4': 'a', '@': 'a', '8': 'b', '3': 'e', '9': 'g', '1': 'i', '!': 'i', '|': 'i',
+  '0': 'o', '5': 's', '$': 's', '7': 't', '+': 't'
+};
+
+// Characters words are made of: letters, digits and the leetspeak symbols
+const WORD_CHARS = /[a-z0-9@!|$+]/i;
+// Up to two separators between the pieces of a word, so "f u c k" and "f.u.c.k" still match
+const SEPARATOR_CHARS = /[\s._\-]/;
+const MAX_SEPARATOR_LENGTH = 2;
+
+/**
+ * Reduces a word to the plain letters it stands for: lowercased,
+ * leetspeak replaced and separators dropped (`5h1t` -> `shit`, `f u c k` -> `fuck`).
+ */
+export function normalizeWord(word: string): string {
+  return word
+    .toLowerCase()
+    .split('')
+    .map(char => LEET_TO_LETTER[char] || char)
+    .join('')
+    .replace(/[^a-z]/g, '');
+}
+
+/**
+ * Coarse form used to look up candidate words: leetspeak replaced, `l` folded into `i`
+ * (`1` and `|` stand for either) and repeated letters collapsed. Characters that
+ * can't be part of a word are kept, so they never find a candidate.
+ */
+function lookupKey(text: string): string {
+  let key = '';
+  for (const char of text.toLowerCase()) {
+    let letter = LEET_TO_LETTER[char] || char;
+    if (letter === 'l') {
+      letter = 'i';
+    }
+    if (key[key.length - 1] !== letter) {
+      key += letter;
+    }
+  }
+  return key;
+}
+
+// The characters each letter of a word may be written with, one class per letter
+function letterClasses(word: string): string[] {
+  return word.split('').map(letter => letter + (LEET_SUBSTITUTES[letter] || ''));
+}
+
+/**
+ * Whether `text` spells the word, each letter written one or more times. Runs the
+ * pattern as a set of states in one pass, so it stays linear whatever the input.
+ */
+function spellsWord(text: string, classes: string[]): boolean {
+  let states = new Set<number>();
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    const next = new Set<number>();
+    for (let position = 0; position < classes.length; position++) {
+      const reachable = index === 0 ? position === 0 : states.has(position) || states.has(position - 1);
+      if (reachable && classes[position].includes(char)) {
+        next.add(position);
+      }
+    }
+    if (!next.size) {
+      return false;
+    }
+    states = next;
+  }
+  return states.has(classes.length - 1);
+}
+
+type Token = { start: number; end: number; key: string; joinsNext: boolean };
+
+// Runs of word characters, and whether only a short separator stands between each and the next
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < text.length) {
+    if (!WORD_CHARS.test(text[index])) {
+      index++;
+      continue;
+    }
+    const start = index;
+    while (index < text.length && WORD_CHARS.test(text[index])) {
+      index++;
+    }
+    const previous = tokens[tokens.length - 1];
+    if (previous) {
+      const gap = text.slice(previous.end, start);
+      previous.joinsNext = gap.length <= MAX_SEPARATOR_LENGTH && [...gap].every(char => SEPARATOR_CHARS.test(char));
+    }
+    tokens.push({ start, end: index, key: lookupKey(text.slice(start, index)), joinsNext: false });
+  }
+  return tokens;
+}
+
+const DEFAULT_DENIED_WORDS = [...badwordsList.array, ...new Filter().list];
+
+/**
+ * Builds a matcher for the global lists plus the given per-agent lists.
+ *
+ * Text is split into tokens once. Runs of tokens joined by short separators are
+ * looked up by their coarse form and the few candidates checked letter by
+ * letter, so filtering is linear in the length of the text.
+ */
+export function compileWordMatcher(config: WordFilterConfig = {}): WordMatcher {
+  const allowed = new Set([...DEFAULT_ALLOWED_WORDS, ...(config.allow || [])].map(normalizeWord));
+  const denied = new Set(
+    [...DEFAULT_DENIED_WORDS, ...(config.deny || [])]
+      .map(normalizeWord)
+      .filter(word => word.length > 1 && !allowed.has(word))
+  );
+
+  if (denied.size === 0) {
+    return { hasProfanity: () => false, mask: (text) => text };
+  }
+
+  const candidates = new Map<string, string[][]>();
+  // Every prefix of a candidate key, runs that aren't one can stop growing
+  const prefixes = new Set<string>();
+  let maxWordLength = 0;
+  for (const word of denied) {
+    const key = lookupKey(word);
+    candidates.set(key, [...(candidates.get(key) || []), letterClasses(word)]);
+    for (let length = 1; length <= key.length; length++) {
+      prefixes.add(key.slice(0, length));
+    }
+    maxWordLength = Math.max(maxWordLength, word.length);
+  }
+
+  const isDenied = (text: string, key: string) =>
+    !!candidates.get(key)?.some(classes => spellsWord(text, classes));
+
+  // Leetspeak symbols around a word may be punctuation ("!!fuck!!"), so also try without them
+  const leading = (text: string) => text.length - text.replace(/^[@!|$+]+/, '').length;
+  const trailing = (text: string) => text.length - text.replace(/[@!|$+]+$/, '').length;
+
+  // Longest blocked span starting at token `first`, as [start, end, last token]
+  function matchAt(text: string, tokens: Token[], first: number): [number, number, number] | null {
+    let found: [number, number, number] | null = null;
+    let letters = '';
+    let lead = 0;
+    // Keys of the run with and without its leading symbols
+    let key = '';
+    let trimmedKey = '';
+    // Each token holds at least one letter of the word
+    for (let last = first; last < tokens.length && last - first < maxWordLength; last++) {
+      if (last > first && !tokens[last - 1].joinsNext) {
+        break;
+      }
+      const piece = text.slice(tokens[last].start, tokens[last].end).toLowerCase();
+      if (last === first) {
+        lead = leading(piece) < piece.length ? leading(piece) : 0;
+        trimmedKey = lookupKey(piece.slice(lead));
+      } else {
+        trimmedKey = lookupKey(trimmedKey + tokens[last].key);
+      }
+      key = lookupKey(key + tokens[last].key);
+      letters += piece;
+
+      const starts: [number, string][] = lead ? [[0, key], [lead, trimmedKey]] : [[0, key]];
+      const tail = trailing(piece) < piece.length ? trailing(piece) : 0;
+      for (const [start, startKey] of starts) {
+        const ends: [number, string][] = [[letters.length, startKey]];
+        if (tail) {
+          ends.push([letters.length - tail, lookupKey(letters.slice(start, letters.length - tail))]);
+        }
+        for (const [end, runKey] of ends) {
+          if (isDenied(letters.slice(start, end), runKey)) {
+            const spanStart = tokens[first].start + start;
+            const spanEnd = tokens[last].end - (letters.length - end);
+            if (!found || spanEnd - spanStart > found[1] - found[0]) {
+              found = [spanStart, spanEnd, last];
+            }
+          }
+        }
+      }
+
+      if (!prefixes.has(key) && !prefixes.has(trimmedKey)) {
+        break;
+      }
+    }
+    return found;
+  }
+
+  // Blocked spans from left to right, stopping at the first when `firstOnly` is set
+  function findSpans(text: string, firstOnly: boolean): [number, number][] {
+    const tokens = tokenize(text);
+    const spans: [number, number][] = [];
+    for (let first = 0; first < tokens.length; first++) {
+      const found = matchAt(text, tokens, first);
+      if (found) {
+        spans.push([found[0], found[1]]);
+        if (firstOnly) {
+          break;
+        }
+        first = found[2];
+      }
+    }
+    return spans;
+  }
+
+  return {
+    hasProfanity: (text) => findSpans(text, true).length > 0,
+    mask: (text) => {
+      let masked = '';
+      let position = 0;
+      for (const [start, end] of findSpans(text, false)) {
+        masked += text.slice(position, start) + '*'.repeat(end - start);
+        position = end;
+      }
+      return masked + text.slice(position);
+    }
+  };
+}
+
+// Compiled matchers by list contents, least recently used first. Edited lists compile a new
+// matcher and the old one ages out.
+const matcherCache = new Map<string, WordMatcher>();
+const MAX_CACHED_MATCHERS = 200;
+
+/**
+ * Returns a compiled matcher for the config, reusing it while the lists are unchanged.
+ */
+export function getWordMatcher(config?: WordFilterConfig | null): WordMatcher {
+  const key = JSON.stringify({ allow: config?.allow || [], deny: config?.deny || [] });
+  const matcher = matcherCache.get(key) || compileWordMatcher(config || {});
+  matcherCache.delete(key);
+  matcherCache.set(key, matcher);
+  if (matcherCache.size > MAX_CACHED_MATCHERS) {
+    matcherCache.delete(matcherCache.keys().next().value);
+  }
+  return matcher;
+}
+
+export const defaultWordMatcher = getWordMatcher();
@@ -0,0 +1,179 @@
+/**
+ * In-memory token buckets used to throttle viewer actions.
+ *
+ * Every action (a socket event such as `new_comment`, or a REST route group
+ * such as `rest:profile`) has one rule per identity scope: the wallet, the
+ * socket and the client IP. A request is only let through when all of its
+ * buckets have a token left.
+ */
+
+export type RateLimitScope = 'wallet' | 'socket' | 'ip';
+
+export type RateLimitRule = {
+  /** Burst size, the most tokens a bucket can hold */
+  capacity: number;
+  /** Tokens added back per second */
+  refillPerSecond: number;
+};
+
+export type RateLimitRules = Partial<Record<RateLimitScope, RateLimitRule>>;
+
+export type RateLimitOverrides = Record<string, RateLimitRules>;
+
+export type RateLimitIdentities = Partial<Record<RateLimitScope, string | null | undefined>>;
+
+export type RateLimitResult = {
+  allowed: boolean;
+  /** Seconds until the request would be allowed, 0 when allowed */
+  retryAfter: number;
+};
+
+const RATE_LIMIT_SCOPES: RateLimitScope[] = ['wallet', 'socket', 'ip'];
+
+export const DEFAULT_RATE_LIMITS: RateLimitOverrides = {
+  new_comment: {
+    wallet: { capacity: 5, refillPerSecond: 0.5 },
+    socket: { capacity: 5, refillPerSecond: 0.5 },
+    ip: { capacity: 20, refillPerSecond: 2 },
+  },
+  new_like: {
+    wallet: { capacity: 20, refillPerSecond: 5 },
+    socket: { capacity: 20, refillPerSecond: 5 },
+    ip: { capacity: 60, refillPerSecond: 15 },
+  },
+  new_reaction: {
+    wallet: { capacity: 10, refillPerSecond: 2 },
+    socket: { capacity: 10, refillPerSecond: 2 },
+    ip: { capacity: 40, refillPerSecond: 8 },
+  },
+  new_gift: {
+    wallet: { capacity: 5, refillPerSecond: 1 },
+    socket: { capacity: 5, refillPerSecond: 1 },
+    ip: { capacity: 20, refillPerSecond: 4 },
+  },
+  subscribe_leaderboard: {
+    wallet: { capacity: 10, refillPerSecond: 0.5 },
+    socket: { capacity: 10, refillPerSecond: 0.5 },
+    ip: { capacity: 30, refillPerSecond: 2 },
+  },
+  'rest:auth': {
+    wallet: { capacity: 10, refillPerSecond: 1 },
+    ip: { capacity: 30, refillPerSecond: 3 },
+  },
+  'rest:profile': {
+    wallet: { capacity: 5, refillPerSecond: 0.1 },
+    ip: { capacity: 20, refillPerSecond: 0.5 },
+  },
+  'rest:transaction': {
+    wallet: { capacity: 10, refillPerSecond: 1 },
+    ip: { capacity: 30, refillPerSecond: 3 },
+  },
+  'rest:upload': {
+    wallet: { capacity: 3, refillPerSecond: 0.05 },
+    ip: { capacity: 10, refillPerSecond: 0.2 },
+  },
+};
+
+type Bucket = { tokens: number; updatedAt: number; rule: RateLimitRule };
+
+const buckets = new Map<string, Bucket>();
+
+let envOverrides: RateLimitOverrides | null = null;
+
+// RATE_LIMITS holds JSON in the same shape as DEFAULT_RATE_LIMITS, parsed once
+function getEnvOverrides(): RateLimitOverrides {
+  if (envOverrides === null) {
+    try {
+      envOverrides = process.env.RATE_LIMITS ? JSON.parse(process.env.RATE_LIMITS) : {};
+    } catch (error) {
+      console.error('Invalid RATE_LIMITS, using defaults:', error);
+      envOverrides = {};
+    }
+  }
+  return envOverrides;
+}
+
+export function isValidRateLimitRule(rule: any): rule is RateLimitRule {
+  return (
+    typeof rule?.capacity === 'number' &&
+    rule.capacity > 0 &&
+    typeof rule?.refillPerSecond === 'number' &&
+    rule.refillPerSecond > 0
+  );
+}
+
+/**
+ * Rules for an action: defaults, then `RATE_LIMITS`, then the agent's own overrides.
+ */
+export function resolveRateLimitRules(action: string, agentOverrides?: RateLimitOverrides | null): RateLimitRules {
+  const rules: RateLimitRules = { ...DEFAULT_RATE_LIMITS[action] };
+  for (const overrides of [getEnvOverrides(), agentOverrides || {}]) {
+    for (const scope of RATE_LIMIT_SCOPES) {
+      const rule = overrides[action]?.[scope];
+      if (isValidRateLimitRule(rule)) {
+        rules[scope] = rule;
+      }
+    }
+  }
+  return rules;
+}
+
+function refill(bucket: Bucket, now: number) {
+  const elapsedSeconds = (now - bucket.updatedAt) / 1000;
+  bucket.tokens = Math.min(bucket.rule.capacity, bucket.tokens + elapsedSeconds * bucket.rule.refillPerSecond);
+  bucket.updatedAt = now;
+}
+
+/**
+ * Takes one token from every bucket that applies to the caller. `key` namespaces
+ * the buckets (e.g. action and agent), so limits are tracked per agent.
+ * Nothing is consumed when any of the buckets is empty.
+ */
+export function consumeRateLimit(key: string, identities: RateLimitIdentities, rules: RateLimitRules): RateLimitResult {
+  const now = Date.now();
+  const applicable: Bucket[] = [];
+
+  for (const scope of RATE_LIMIT_SCOPES) {
+    const identity = identities[scope];
+    const rule = rules[scope];
+    if (!identity || !rule) {
+      continue;
+    }
+
+    const bucketKey = `${key}:${scope}:${identity}`;
+    let bucket = buckets.get(bucketKey);
+    if (!bucket) {
+      bucket = { tokens: rule.capacity, updatedAt: now, rule };
+      buckets.set(bucketKey, bucket);
+    }
+    bucket.rule = rule;
+    refill(bucket, now);
+    applicable.push(bucket);
+  }
+
+  const retryAfter = Math.max(
+    0,
+    ...applicable
+      .filter(bucket => bucket.tokens < 1)
+      .map(bucket => (1 - bucket.tokens) / bucket.rule.refillPerSecond)
+  );
+  if (retryAfter > 0) {
+    return { allowed: false, retryAfter: Math.ceil(retryAfter) };
+  }
+
+  for (const bucket of applicable) {
+    bucket.tokens -= 1;
+  }
+  return { allowed: true, retryAfter: 0 };
+}
+
+// Forget buckets that have refilled completely, they behave exactly like new ones
+setInterval(() => {
+  const now = Date.now();
+  for (const [bucketKey, bucket] of buckets.entries()) {
+    refill(bucket, now);
+    if (bucket.tokens >= bucket.rule.capacity) {
+      buckets.delete(bucketKey);
+    }
+  }
+}, 60 * 1000);
@@ -0,0 +1,54 @@
+/**
+ * Helpers for presenting full-text search hits from stream chat.
+ */
+
+export type HighlightedSnippet = {
+  snippet: string;
+  /** `[start, end)` offsets of the matched terms within `snippet` */
+  highlights: [number, number][];
+};
+
+export const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * The words of a MongoDB `$text` query worth highlighting: quoted phrases are
+ * split into words and negated terms (`-word`) are dropped.
+ */
+export function searchTerms(query: string): string[] {
+  return [...new Set(
+    query
+      .replace(/"/g, ' ')
+      .split(/\s+/)
+      .filter(term => term && !term.startsWith('-'))
+      .map(term => term.toLowerCase())
+  )];
+}
+
+/**
+ * Cuts `text` down to about `radius` characters on each side of the first
+ * matched term and reports where the terms are. Words are matched by prefix,
+ * so stemmed matches like `streaming` for `stream` are highlighted too.
+ */
+export function highlightSnippet(text: string, terms: string[], radius = 60): HighlightedSnippet {
+  if (!terms.length) {
+    return { snippet: text.slice(0, radius * 2), highlights: [] };
+  }
+
+  const pattern = new RegExp(`\\b(?:${terms.map(escapeRegExp).join('|')})\\w*`, 'gi');
+  const matches = [...text.matchAll(pattern)];
+  const firstMatch = matches[0]?.index ?? 0;
+
+  const start = Math.max(0, firstMatch - radius);
+  const end = Math.min(text.length, firstMatch + radius);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+
+  const highlights: [number, number][] = matches
+    .filter(match => match.index >= start && match.index + match[0].length <= end)
+    .map(match => [
+      match.index - start + prefix.length,
+      match.index - start + prefix.length + match[0].length
+    ]);
+
+  return { snippet: prefix + text.slice(start, end) + suffix, highlights };
+}
@@ -0,0 +1,129 @@
+import { StreamSession } from '../models/StreamSession.js';
+import { GiftTransaction } from '../models/GiftTransaction.js';
+import Comment from '../models/Comment.js';
+import Like from '../models/Like.js';
+
+/**
+ * Stream sessions: one record per time an agent goes live.
+ *
+ * A session opens when a stream goes online and closes when it goes offline,
+ * either because the stream said so or because its heartbeat stopped. Viewer
+ * counts are sampled while it is open; likes, comments and gifts are counted
+ * from their own collections over the session's time range when it closes.
+ */
+
+export type SessionEndReason = 'offline' | 'heartbeat_timeout' | 'restarted';
+
+export type SessionActivity = {
+  likes: number;
+  comments: number;
+  gifts: number;
+  coins: number;
+};
+
+type StreamInfo = { title?: string | null; startedAt?: Date | null };
+
+export async function sessionActivity(agentId: string, from: Date, to: Date): Promise<SessionActivity> {
+  const range = { $gte: from, $lte: to };
+  const [likes, comments, giftTotals] = await Promise.all([
+    Like.countDocuments({ agentId, createdAt: range }),
+    Comment.countDocuments({ agentId, createdAt: range, deletedAt: null, heldForReview: { $ne: true } }),
+    GiftTransaction.aggregate([
+      { $match: { recipientAgentId: agentId, createdAt: range } },
+      { $group: { _id: null, gifts: { $sum: 1 }, coins: { $sum: '$coinsTotal' } } }
+    ])
+  ]);
+  return {
+    likes,
+    comments,
+    gifts: giftTotals[0]?.gifts || 0,
+    coins: giftTotals[0]?.coins || 0
+  };
+}
+
+async function finishSession(session: any, reason: SessionEndReason, endedAt: Date) {
+  const activity = await sessionActivity(session.agentId, session.startedAt, endedAt);
+  return StreamSession.findOneAndUpdate(
+    // Only the first close wins if two status updates race
+    { _id: session._id, endedAt: null },
+    {
+      $set: {
+        endedAt,
+        endReason: reason,
+        durationSeconds: Math.max(0, Math.round((endedAt.getTime() - session.startedAt.getTime()) / 1000)),
+        averageViewers: session.viewerSamples ? session.viewerSum / session.viewerSamples : 0,
+        ...activity
+      }
+    },
+    { new: true }
+  );
+}
+
+/**
+ * Opens a session for a stream that just went live. A session left open by a
+ * restart or a missed offline transition is closed first.
+ */
+export async function openStreamSession(agentId: string, stream: StreamInfo = {}) {
+  const startedAt = stream.startedAt || new Date();
+  const stale = await StreamSession.find({ agentId, endedAt: null });
+  for (const session of stale) {
+    await finishSession(session, 'restarted', startedAt > session.startedAt ? startedAt : new Date());
+  }
+  return StreamSession.create({ agentId, title: stream.title || null, startedAt });
+}
+
+/**
+ * Closes the agent's open session and stores its totals. Streams that were
+ * already live before sessions were recorded get a session from their `startedAt`.
+ */
+export async function closeStreamSession(agentId: string, reason: SessionEndReason, stream: StreamInfo = {}) {
+  const endedAt = new Date();
+  let session = await StreamSession.findOne({ agentId, endedAt: null }).sort({ createdAt: -1 });
+  if (!session) {
+    if (!stream.startedAt) {
+      return null;
+    }
+    session = await StreamSession.create({ agentId, title: stream.title || null, startedAt: stream.startedAt });
+  }
+  return finishSession(session, reason, endedAt);
+}
+
+/**
+ * Adds one viewer count sample to every open session and returns the agents that are live.
+ */
+export async function recordViewerSamples(getViewerCount: (agentId: string) => number): Promise<string[]> {
+  const open = await StreamSession.find({ endedAt: null }, { agentId: 1 }).lean();
+  if (!open.length) {
+    return [];
+  }
+  await StreamSession.bulkWrite(
+    open.map(session => {
+      const viewers = getViewerCount(session.agentId);
+      return {
+        updateOne: {
+          filter: { _id: session._id, endedAt: null },
+          update: { $max: { peakViewers: viewers }, $inc: { viewerSum: viewers, viewerSamples: 1 } }
+        }
+      };
+    })
+  );
+  return open.map(session => session.agentId);
+}
+
+/**
+ * A session as returned by the API. Open sessions get their totals so far.
+ */
+export async function sessionSummary(session: any) {
+  const { viewerSum, viewerSamples, ...summary } = session;
+  if (session.endedAt) {
+    return { ...summary, live: false };
+  }
+  const now = new Date();
+  return {
+    ...summary,
+    ...await sessionActivity(session.agentId, session.startedAt, now),
+    live: true,
+    durationSeconds: Math.max(0, Math.round((now.getTime() - session.startedAt.getTime()) / 1000)),
+    averageViewers: viewerSamples ? viewerSum / viewerSamples : 0
+  };
+}
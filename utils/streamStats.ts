@@ -0,0 +1,111 @@
+import { StreamingStatus } from '../models/StreamingStatus.js';
+import { GiftTransaction } from '../models/GiftTransaction.js';
+import Comment from '../models/Comment.js';
+import Like from '../models/Like.js';
+
+/**
+ * Per-agent activity counters kept in `StreamingStatus.stats`.
+ *
+ * Counters are bumped with `$inc` as likes, comments and gifts are saved, so
+ * reads never have to scan the activity collections. Anything that slips
+ * through (a crash between the save and the increment, writes from other
+ * tools) is repaired by `reconcileStreamStats`, which recounts from the
+ * collections and overwrites counters that drifted.
+ *
+ * Platform totals are the sum of the agents' counters, so likes and comments
+ * without an agent, or for an agent that has no stream, are not counted.
+ */
+
+export type CountedStats = {
+  likes: number;
+  comments: number;
+  gifts: number;
+  coins: number;
+};
+
+const COUNTED_STATS: (keyof CountedStats)[] = ['likes', 'comments', 'gifts', 'coins'];
+
+/**
+ * Atomically adds to an agent's counters. Negative values take activity back out.
+ */
+export async function incrementStreamStats(agentId: string, delta: Partial<CountedStats>) {
+  const inc = Object.fromEntries(
+    Object.entries(delta)
+      .filter(([, value]) => value)
+      .map(([name, value]) => [`stats.${name}`, value])
+  );
+  if (!agentId || !Object.keys(inc).length) {
+    return;
+  }
+  await StreamingStatus.updateOne({ agentId }, { $inc: inc });
+}
+
+/**
+ * Counts an agent's activity from the collections. Comments held for review or
+ * removed by a moderator are not counted.
+ */
+export async function countStreamActivity(agentId: string): Promise<CountedStats> {
+  const [likes, comments, giftTotals] = await Promise.all([
+    Like.countDocuments({ agentId }),
+    Comment.countDocuments({ agentId, deletedAt: null, heldForReview: { $ne: true } }),
+    GiftTransaction.aggregate([
+      { $match: { recipientAgentId: agentId } },
+      { $group: { _id: null, gifts: { $sum: 1 }, coins: { $sum: '$coinsTotal' } } }
+    ])
+  ]);
+  return {
+    likes,
+    comments,
+    gifts: giftTotals[0]?.gifts || 0,
+    coins: giftTotals[0]?.coins || 0
+  };
+}
+
+/**
+ * Recounts every agent's activity and fixes counters that drifted. Returns the
+ * ids of the agents that were repaired.
+ */
+export async function reconcileStreamStats(): Promise<string[]> {
+  const repaired: string[] = [];
+  const statuses = StreamingStatus.find({}, { agentId: 1, stats: 1 }).lean().cursor();
+  for await (const status of statuses) {
+    const actual = await countStreamActivity(status.agentId);
+    const drifted = COUNTED_STATS.filter(name => (status.stats?.[name] || 0) !== actual[name]);
+    if (!drifted.length) {
+      continue;
+    }
+    // Only overwrite counters that still hold what was read before counting. If an
+    // increment landed in between, the counter is left for the next run.
+    const { matchedCount } = await StreamingStatus.updateOne(
+      { _id: status._id, ...Object.fromEntries(drifted.map(name => [`stats.${name}`, status.stats?.[name] ?? null])) },
+      { $set: Object.fromEntries(drifted.map(name => [`stats.${name}`, actual[name]])) }
+    );
+    if (matchedCount) {
+      repaired.push(status.agentId);
+    }
+  }
+  return repaired;
+}
+
+/**
+ * Platform-wide totals, summed from the agents' counters.
+ */
+export async function platformStats(): Promise<CountedStats> {
+  const [totals] = await StreamingStatus.aggregate([
+    {
+      $group: {
+        _id: null,
+        likes: { $sum: '$stats.likes' },
+        comments: { $sum: '$stats.comments' },
+        gifts: { $sum: '$stats.gifts' },
+        coins: { $sum: '$stats.coins' }
+      }
+    }
+  ]);
+  return {
+    likes: totals?.likes || 0,
+    comments: totals?.comments || 0,
+    gifts: totals?.gifts || 0,
+    coins: totals?.coins || 0
+  };
+}
@@ -0,0 +1,210 @@
+import type { Model } from 'mongoose';
+import { ViewerSample, VIEWER_SAMPLE_RETENTION_SECONDS } from '../models/ViewerSample.js';
+import { ViewerRollup, VIEWER_ROLLUP_BUCKET_SECONDS } from '../models/ViewerRollup.js';
+import { GiftTransaction } from '../models/GiftTransaction.js';
+import Comment from '../models/Comment.js';
+import Like from '../models/Like.js';
+
+/**
+ * Audience analytics: viewer counts over time next to likes, comments and gifts.
+ *
+ * Viewer counts are sampled into a time-series collection that keeps raw
+ * samples for `VIEWER_SAMPLE_RETENTION_SECONDS` and is downsampled into 5
+ * minute rollups kept much longer. Windows reaching past the raw retention are
+ * answered from the rollups. Activity is counted from the likes, comments and
+ * gift transactions themselves.
+ */
+
+export const ANALYTICS_RESOLUTIONS: Record<string, number> = {
+  '1m': 60,
+  '5m': 5 * 60,
+  '15m': 15 * 60,
+  '1h': 60 * 60,
+  '1d': 24 * 60 * 60
+};
+
+export const ANALYTICS_WINDOWS: Record<string, number> = {
+  '1h': 60 * 60,
+  '6h': 6 * 60 * 60,
+  '24h': 24 * 60 * 60,
+  '7d': 7 * 24 * 60 * 60,
+  '30d': 30 * 24 * 60 * 60,
+  '90d': 90 * 24 * 60 * 60
+};
+
+export const MAX_ANALYTICS_BUCKETS = 1500;
+// Buckets aimed for when the caller doesn't pick a resolution
+const DEFAULT_BUCKETS = 300;
+
+export type ViewerStats = { average: number; max: number };
+
+export type AnalyticsBucket = {
+  t: Date;
+  viewers: ViewerStats | null;
+  likes: number;
+  likesPerMinute: number;
+  comments: number;
+  commentsPerMinute: number;
+  gifts: number;
+  coins: number;
+};
+
+/**
+ * Finest resolution that keeps the window within `DEFAULT_BUCKETS` buckets.
+ */
+export function defaultResolution(windowSeconds: number): string {
+  const entries = Object.entries(ANALYTICS_RESOLUTIONS);
+  const fitting = entries.find(([, seconds]) => windowSeconds / seconds <= DEFAULT_BUCKETS);
+  return (fitting || entries[entries.length - 1])[0];
+}
+
+// Start of the bucket as epoch ms; buckets are aligned to the unix epoch (UTC)
+const bucketExpression = (field: string, bucketMs: number) => ({
+  $subtract: [{ $toLong: field }, { $mod: [{ $toLong: field }, bucketMs] }]
+});
+
+/**
+ * Stores one viewer count sample per agent.
+ */
+export async function recordViewerCounts(counts: Map<string, number>, timestamp = new Date()) {
+  if (!counts.size) {
+    return;
+  }
+  await ViewerSample.insertMany(
+    [...counts].map(([agentId, viewers]) => ({ agentId, timestamp, viewers }))
+  );
+}
+
+/**
+ * Downsamples raw samples since `since` into rollups. Buckets are recomputed
+ * from scratch, so overlapping runs are harmless.
+ */
+export async function rollupViewerSamples(since: Date) {
+  const bucketMs = VIEWER_ROLLUP_BUCKET_SECONDS * 1000;
+  const from = new Date(since.getTime() - (since.getTime() % bucketMs));
+  const rollups = await ViewerSample.aggregate([
+    { $match: { timestamp: { $gte: from } } },
+    {
+      $group: {
+        _id: { agentId: '$agentId', bucket: bucketExpression('$timestamp', bucketMs) },
+        samples: { $sum: 1 },
+        sum: { $sum: '$viewers' },
+        max: { $max: '$viewers' }
+      }
+    }
+  ]);
+  if (!rollups.length) {
+    return;
+  }
+  await ViewerRollup.bulkWrite(
+    rollups.map(({ _id, samples, sum, max }) => ({
+      updateOne: {
+        filter: { agentId: _id.agentId, bucket: new Date(_id.bucket) },
+        update: { $set: { samples, sum, max } },
+        upsert: true
+      }
+    }))
+  );
+}
+
+async function viewerBuckets(agentId: string, from: Date, to: Date, bucketMs: number) {
+  const rawSince = Date.now() - VIEWER_SAMPLE_RETENTION_SECONDS * 1000;
+  const pipeline = from.getTime() >= rawSince
+    ? ViewerSample.aggregate([
+      { $match: { agentId, timestamp: { $gte: from, $lt: to } } },
+      {
+        $group: {
+          _id: bucketExpression('$timestamp', bucketMs),
+          samples: { $sum: 1 },
+          sum: { $sum: '$viewers' },
+          max: { $max: '$viewers' }
+        }
+      }
+    ])
+    : ViewerRollup.aggregate([
+      { $match: { agentId, bucket: { $gte: from, $lt: to } } },
+      {
+        $group: {
+          _id: bucketExpression('$bucket', bucketMs),
+          samples: { $sum: '$samples' },
+          sum: { $sum: '$sum' },
+          max: { $max: '$max' }
+        }
+      }
+    ]);
+  const rows = await pipeline;
+  return new Map<number, ViewerStats>(
+    rows.map(row => [row._id, { average: row.samples ? row.sum / row.samples : 0, max: row.max }])
+  );
+}
+
+async function countBuckets(model: Model<any>, match: Record<string, any>, bucketMs: number, coinsField?: string) {
+  const rows = await model.aggregate([
+    { $match: match },
+    {
+      $group: {
+        _id: bucketExpression('$createdAt', bucketMs),
+        count: { $sum: 1 },
+        ...(coinsField && { coins: { $sum: `$${coinsField}` } })
+      }
+    }
+  ]);
+  return new Map<number, { count: number; coins?: number }>(rows.map(row => [row._id, row]));
+}
+
+/**
+ * Returns an error message when the window can't be served at the resolution.
+ */
+export function validateAnalyticsRange(from: Date, to: Date, resolutionSeconds: number): string | null {
+  if (from.getTime() >= to.getTime()) {
+    return 'from must be before to';
+  }
+  if ((to.getTime() - from.getTime()) / 1000 / resolutionSeconds > MAX_ANALYTICS_BUCKETS) {
+    return `The window spans more than ${MAX_ANALYTICS_BUCKETS} buckets at this resolution`;
+  }
+  const rawSince = Date.now() - VIEWER_SAMPLE_RETENTION_SECONDS * 1000;
+  if (from.getTime() < rawSince && resolutionSeconds % VIEWER_ROLLUP_BUCKET_SECONDS !== 0) {
+    return `Windows older than ${VIEWER_SAMPLE_RETENTION_SECONDS / 86400} days need a resolution of at least 5m`;
+  }
+  return null;
+}
+
+/**
+ * One bucket per `resolutionSeconds` from `from` up to `to`, oldest first, with
+ * empty buckets included so charts don't skip quiet periods.
+ */
+export async function agentAnalytics(
+  agentId: string,
+  from: Date,
+  to: Date,
+  resolutionSeconds: number
+): Promise<AnalyticsBucket[]> {
+  const bucketMs = resolutionSeconds * 1000;
+  const start = from.getTime() - (from.getTime() % bucketMs);
+  const range = { $gte: new Date(start), $lt: to };
+
+  const [viewers, likes, comments, gifts] = await Promise.all([
+    viewerBuckets(agentId, new Date(start), to, bucketMs),
+    countBuckets(Like, { agentId, createdAt: range }, bucketMs),
+    countBuckets(Comment, { agentId, createdAt: range, deletedAt: null, heldForReview: { $ne: true } }, bucketMs),
+    countBuckets(GiftTransaction, { recipientAgentId: agentId, createdAt: range }, bucketMs, 'coinsTotal')
+  ]);
+
+  const minutes = resolutionSeconds / 60;
+  const buckets: AnalyticsBucket[] = [];
+  for (let t = start; t < to.getTime(); t += bucketMs) {
+    const likeCount = likes.get(t)?.count || 0;
+    const commentCount = comments.get(t)?.count || 0;
+    buckets.push({
+      t: new Date(t),
+      viewers: viewers.get(t) || null,
+      likes: likeCount,
+      likesPerMinute: likeCount / minutes,
+      comments: commentCount,
+      commentsPerMinute: commentCount / minutes,
+      gifts: gifts.get(t)?.count || 0,
+      coins: gifts.get(t)?.coins || 0
+    });
+  }
+  return buckets;
+}
@@ -0,0 +1,116 @@
+/**
+ * Who is watching each agent, counted by person rather than by socket.
+ *
+ * Sockets are grouped under a viewer key: the authenticated wallet, else the
+ * client id the page sends in the socket handshake, else the socket itself.
+ * Several tabs of one viewer count once. When a viewer's last socket goes
+ * away they stay counted for `VIEWER_GRACE_MS`, so a reconnect or a page
+ * reload doesn't make the count flap.
+ *
+ * The client id is whatever the page sends and isn't verified, so anonymous
+ * viewers are counted on a best-effort basis: a client can merge its tabs
+ * into one viewer, or show up as several by sending fresh ids. Only wallet
+ * keys are authenticated.
+ */
+
+export type ViewerCounts = {
+  /** Distinct viewers, including ones within their reconnect grace period */
+  viewers: number;
+  /** Open sockets */
+  connections: number;
+};
+
+export const VIEWER_GRACE_MS = 15 * 1000;
+
+const MAX_CLIENT_ID_LENGTH = 128;
+
+// agentId -> viewer key -> socket ids
+const presence = new Map<string, Map<string, Set<string>>>();
+// `${agentId}\n${viewerKey}` -> timer removing a viewer whose sockets are all gone
+const departures = new Map<string, ReturnType<typeof setTimeout>>();
+
+const departureKey = (agentId: string, viewerKey: string) => `${agentId}\n${viewerKey}`;
+
+/**
+ * The key a socket's viewer is counted under.
+ */
+export function viewerKeyFor(socketId: string, publicKey?: string | null, clientId?: unknown): string {
+  if (publicKey) {
+    return `wallet:${publicKey}`;
+  }
+  if (typeof clientId === 'string' && clientId && clientId.length <= MAX_CLIENT_ID_LENGTH) {
+    return `client:${clientId}`;
+  }
+  return `socket:${socketId}`;
+}
+
+export function addViewerSocket(agentId: string, viewerKey: string, socketId: string) {
+  const key = departureKey(agentId, viewerKey);
+  clearTimeout(departures.get(key));
+  departures.delete(key);
+
+  let viewers = presence.get(agentId);
+  if (!viewers) {
+    viewers = new Map();
+    presence.set(agentId, viewers);
+  }
+  let sockets = viewers.get(viewerKey);
+  if (!sockets) {
+    sockets = new Set();
+    viewers.set(viewerKey, sockets);
+  }
+  sockets.add(socketId);
+}
+
+/**
+ * Removes a socket. If it was the viewer's last one, the viewer is dropped
+ * after the grace period and `onDeparted` is called with the agent id.
+ */
+export function removeViewerSocket(
+  agentId: string,
+  viewerKey: string,
+  socketId: string,
+  onDeparted?: (agentId: string) => void
+) {
+  const sockets = presence.get(agentId)?.get(viewerKey);
+  if (!sockets?.delete(socketId) || sockets.size > 0) {
+    return;
+  }
+
+  const key = departureKey(agentId, viewerKey);
+  clearTimeout(departures.get(key));
+  departures.set(key, setTimeout(() => {
+    departures.delete(key);
+    const viewers = presence.get(agentId);
+    if (viewers?.get(viewerKey)?.size === 0) {
+      viewers.delete(viewerKey);
+      if (viewers.size === 0) {
+        presence.delete(agentId);
+      }
+      onDeparted?.(agentId);
+    }
+  }, VIEWER_GRACE_MS));
+}
+
+export function viewerCounts(agentId: string): ViewerCounts {
+  const viewers = presence.get(agentId);
+  if (!viewers) {
+    return { viewers: 0, connections: 0 };
+  }
+  let connections = 0;
+  for (const sockets of viewers.values()) {
+    connections += sockets.size;
+  }
+  return { viewers: viewers.size, connections };
+}
+
+export function uniqueViewerCount(agentId: string): number {
+  return presence.get(agentId)?.size || 0;
+}
+
+/**
+ * Agents that currently have at least one viewer.
+ */
+export function watchedAgentIds(): string[] {
+  return [...presence.keys()];
+}
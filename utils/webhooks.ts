@@ -0,0 +1,310 @@
+import { createHmac, randomBytes } from 'crypto';
+import { lookup as dnsLookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import type { LookupFunction } from 'net';
+import http from 'http';
+import https from 'https';
+import mongoose from 'mongoose';
+import { AgentWebhook } from '../models/AgentWebhook.js';
+import { WebhookDelivery } from '../models/WebhookDelivery.js';
+import { StreamingStatus } from '../models/StreamingStatus.js';
+
+/**
+ * Outbound webhooks for agent runtimes that cannot hold a socket open.
+ *
+ * Every event becomes one `WebhookDelivery` per subscribed webhook. Deliveries
+ * are POSTed as JSON with these headers:
+ * - `X-Aiko-Event`: the event name
+ * - `X-Aiko-Delivery`: the delivery id, the same across retries
+ * - `X-Aiko-Timestamp`: unix seconds when the attempt was signed
+ * - `X-Aiko-Signature`: `sha256=` + hex HMAC-SHA256 of `${timestamp}.${body}`
+ *   keyed with the agent's webhook secret
+ *
+ * Non-2xx responses and network errors are retried with exponential backoff
+ * until `MAX_DELIVERY_ATTEMPTS` is reached, then the delivery is marked failed.
+ *
+ * Receivers must be public: the host is resolved on every attempt, and the
+ * request is refused when any address is private, loopback or link-local. The
+ * connection goes to the address that was checked, so a DNS answer changing
+ * between the check and the connect can't redirect it. Redirects are not followed.
+ */
+
+export const MAX_DELIVERY_ATTEMPTS = 6;
+// Delay before the first retry, doubled for every retry after it
+const RETRY_BASE_DELAY_MS = 10 * 1000;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+// How long an attempt in progress keeps other workers off the delivery
+const ATTEMPT_LEASE_MS = 60 * 1000;
+
+export function generateWebhookSecret(): string {
+  return 'whsec_' + randomBytes(32).toString('base64url');
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+export function retryDelayMs(attempts: number): number {
+  const delay = RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1));
+  // Up to 10% jitter so retries from a burst of events spread out
+  return Math.round(delay * (1 + Math.random() * 0.1));
+}
+
+// Address ranges webhooks may not reach: private, loopback, link-local, shared, multicast and reserved
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 96], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+const allowPrivateUrls = () => process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true';
+
+/**
+ * Whether an IP address is private, loopback, link-local or otherwise not
+ * public. IPv4-mapped IPv6 addresses (`::ffff:127.0.0.1`) are checked as IPv4.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const unbracketed = address.replace(/^\[|\]$/g, '');
+  const mapped = /^::ffff:(?:0:)?(.+)$/i.exec(unbracketed)?.[1];
+  if (mapped) {
+    if (isIP(mapped) === 4) {
+      return PRIVATE_ADDRESSES.check(mapped, 'ipv4');
+    }
+    const hex = /^([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i.exec(mapped);
+    if (hex) {
+      const value = (parseInt(hex[1], 16) << 16 | parseInt(hex[2], 16)) >>> 0;
+      return PRIVATE_ADDRESSES.check([24, 16, 8, 0].map(shift => (value >>> shift) & 255).join('.'), 'ipv4');
+    }
+  }
+  const family = isIP(unbracketed);
+  if (!family) {
+    return true;
+  }
+  return PRIVATE_ADDRESSES.check(unbracketed, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Returns an error message for URLs webhooks may not point at. IP literals and
+ * `localhost` are checked here; other hosts when they are resolved for each
+ * attempt. Private hosts are only allowed with `WEBHOOK_ALLOW_PRIVATE_URLS=true`,
+ * e.g. to test against a local receiver.
+ */
+export function validateWebhookUrl(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return 'url is required';
+  }
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch (error) {
+    return 'url is not a valid URL';
+  }
+  if (!['http:', 'https:'].includes(url.protocol)) {
+    return 'url must use http or https';
+  }
+  // The URL parser already turned decimal, octal and hex IPv4 hosts into dotted form
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  const isLocalName = host === 'localhost' || host.endsWith('.localhost');
+  if (!allowPrivateUrls() && (isLocalName || (isIP(host) && isPrivateAddress(host)))) {
+    return 'url must not point at a private or loopback address';
+  }
+  return null;
+}
+
+// Resolves the receiver's host and refuses it if any of its addresses is not public.
+// Used as the socket's lookup, so the connection goes to the addresses checked here.
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { all: true, family: options.family as number | undefined })
+    .then(addresses => {
+      if (!allowPrivateUrls() && addresses.some(({ address }) => isPrivateAddress(address))) {
+        throw new Error(`${hostname} resolves to a private or loopback address`);
+      }
+      if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    })
+    .catch(error => callback(error, '', 0));
+};
+
+// POSTs the body and resolves with the response status. Redirects are not followed.
+function postWebhook(target: string, headers: Record<string, string>, body: string): Promise<number> {
+  const url = new URL(target);
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  // Sockets skip the lookup for IP literals, so they are checked here
+  if (isIP(host) && !allowPrivateUrls() && isPrivateAddress(host)) {
+    return Promise.reject(new Error('url points at a private or loopback address'));
+  }
+  const client = url.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = client.request(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      lookup: publicOnlyLookup,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+    }, response => {
+      response.resume();
+      resolve(response.statusCode || 0);
+    });
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+async function claimDelivery(deliveryId: any) {
+  const now = new Date();
+  return WebhookDelivery.findOneAndUpdate(
+    { _id: deliveryId, status: 'pending', nextAttemptAt: { $lte: now } },
+    { $set: { nextAttemptAt: new Date(now.getTime() + ATTEMPT_LEASE_MS) } },
+    { new: true }
+  );
+}
+
+async function attemptDelivery(deliveryId: any) {
+  const delivery = await claimDelivery(deliveryId);
+  if (!delivery) {
+    return;
+  }
+
+  const [webhook, status] = await Promise.all([
+    AgentWebhook.findById(delivery.webhookId),
+    StreamingStatus.findOne({ agentId: delivery.agentId }).select('+webhookSecret')
+  ]);
+  if (!webhook || !webhook.active || !status?.webhookSecret) {
+    await WebhookDelivery.updateOne(
+      { _id: delivery._id },
+      { $set: { status: 'failed', error: 'Webhook removed, disabled or missing a secret' } }
+    );
+    return;
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    responseStatus = await postWebhook(webhook.url, {
+      'Content-Type': 'application/json',
+      'X-Aiko-Event': delivery.event,
+      'X-Aiko-Delivery': delivery._id.toString(),
+      'X-Aiko-Timestamp': String(timestamp),
+      'X-Aiko-Signature': signWebhookPayload(status.webhookSecret, timestamp, body)
+    }, body);
+    if (responseStatus < 200 || responseStatus >= 300) {
+      error = `Receiver answered ${responseStatus}`;
+    }
+  } catch (requestError) {
+    error = requestError?.message || 'Request failed';
+  }
+
+  const now = new Date();
+  if (!error) {
+    await WebhookDelivery.updateOne(
+      { _id: delivery._id },
+      { $set: { status: 'succeeded', attempts, lastAttemptAt: now, deliveredAt: now, responseStatus, error: null } }
+    );
+    return;
+  }
+
+  const giveUp = attempts >= MAX_DELIVERY_ATTEMPTS;
+  await WebhookDelivery.updateOne(
+    { _id: delivery._id },
+    {
+      $set: {
+        status: giveUp ? 'failed' : 'pending',
+        attempts,
+        lastAttemptAt: now,
+        nextAttemptAt: new Date(now.getTime() + retryDelayMs(attempts)),
+        responseStatus,
+        error
+      }
+    }
+  );
+}
+
+function attemptInBackground(deliveryId: any) {
+  attemptDelivery(deliveryId).catch(error => {
+    console.error('Error delivering webhook:', error);
+  });
+}
+
+async function queueDeliveries(webhookIds: any[], agentId: string, event: string, data: any) {
+  const createdAt = new Date();
+  // Ids are assigned up front so the payload can carry its own delivery id
+  const deliveries = await WebhookDelivery.insertMany(
+    webhookIds.map(webhookId => {
+      const _id = new mongoose.Types.ObjectId();
+      return {
+        _id,
+        webhookId,
+        agentId,
+        event,
+        payload: { id: _id.toString(), event, agentId, createdAt, data },
+        createdAt
+      };
+    })
+  );
+  deliveries.forEach(delivery => attemptInBackground(delivery._id));
+  return deliveries;
+}
+
+/**
+ * Records a delivery of `event` for each of the agent's webhooks subscribed to it
+ * and sends them right away. Never throws, so callers don't need to wait on it.
+ */
+export async function dispatchWebhookEvent(agentId: string, event: string, data: any) {
+  try {
+    const webhooks = await AgentWebhook.find({ agentId, active: true, events: event }, { _id: 1 });
+    if (webhooks.length) {
+      await queueDeliveries(webhooks.map(webhook => webhook._id), agentId, event, data);
+    }
+  } catch (error) {
+    console.error(`Error dispatching ${event} webhooks:`, error);
+  }
+}
+
+/**
+ * Sends a `ping` event to one webhook so owners can check their receiver and signature code.
+ */
+export async function pingWebhook(webhook: { _id: any; agentId: string; url: string }) {
+  const [delivery] = await queueDeliveries([webhook._id], webhook.agentId, 'ping', { url: webhook.url });
+  return delivery;
+}
+
+/**
+ * Puts a delivery back in the queue as if it was new, keeping its id and payload.
+ */
+export async function replayWebhookDelivery(agentId: string, deliveryId: string) {
+  const delivery = await WebhookDelivery.findOneAndUpdate(
+    { _id: deliveryId, agentId, status: { $ne: 'pending' } },
+    { $set: { status: 'pending', attempts: 0, nextAttemptAt: new Date(), error: null, responseStatus: null } },
+    { new: true }
+  );
+  if (delivery) {
+    attemptInBackground(delivery._id);
+  }
+  return delivery;
+}
+
+// Pick up retries that are due, including ones left behind by a restart
+setInterval(async () => {
+  try {
+    const due = await WebhookDelivery.find(
+      { status: 'pending', nextAttemptAt: { $lte: new Date() } },
+      { _id: 1 }
+    ).limit(50);
+    due.forEach(delivery => attemptInBackground(delivery._id));
+  } catch (error) {
+    console.error('Error in webhook retry job:', error);
+  }
+}, 5000);